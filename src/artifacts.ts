@@ -0,0 +1,118 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {SizeEntry} from './utils.js';
+import {isWithin} from './tree.js';
+import {listPaths, sizePaths, WalkSettings} from './walker.js';
+import type {Progress} from './scanners.js';
+
+// Regenerable build output. A folder named `dir` only counts when a project
+// marker sits next to it (or, for `anywhere` rules, in any folder above it up
+// to the scan root); the folder holding the marker is the project root.
+export type ArtifactRule = {
+  dir: string;
+  markers: string[]; // file or folder names; "*.tf" matches by extension
+  label: string;
+  anywhere?: boolean;
+};
+
+export type ArtifactHit = SizeEntry & { rule: string };
+
+export type ArtifactProject = {
+  root: string;
+  kb: number;
+  bytes: number;
+  lastModified: number; // newest file mtime (ms) in the project outside its artifacts
+  artifacts: ArtifactHit[]; // largest first
+};
+
+const PYTHON = ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', 'Pipfile'];
+const GRADLE = ['build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'];
+
+export const ARTIFACT_RULES: ArtifactRule[] = [
+  { dir: 'node_modules', markers: ['package.json'], label: 'npm packages' },
+  { dir: 'target', markers: ['Cargo.toml'], label: 'Rust build' },
+  { dir: 'target', markers: ['pom.xml'], label: 'Maven build' },
+  { dir: 'build', markers: [...GRADLE, 'CMakeLists.txt', 'package.json', ...PYTHON], label: 'build output' },
+  { dir: '.gradle', markers: GRADLE, label: 'Gradle cache' },
+  { dir: '.venv', markers: PYTHON, label: 'Python virtualenv' },
+  { dir: 'venv', markers: PYTHON, label: 'Python virtualenv' },
+  { dir: '__pycache__', markers: PYTHON, label: 'Python bytecode', anywhere: true },
+  { dir: 'Pods', markers: ['Podfile'], label: 'CocoaPods' },
+  { dir: '.next', markers: ['next.config.js', 'next.config.mjs', 'next.config.ts', 'package.json'], label: 'Next.js build' },
+  { dir: 'dist', markers: ['package.json', ...PYTHON], label: 'dist output' },
+  { dir: '.terraform', markers: ['*.tf'], label: 'Terraform providers' },
+];
+
+// Finds the project root for a candidate artifact folder, or null.
+function projectRootFor(dirPath: string, rules: ArtifactRule[], scanRoot: string, listing: (dir: string) => string[]): { root: string; rule: ArtifactRule } | null {
+  const name = path.basename(dirPath);
+  for (const rule of rules) {
+    if (rule.dir !== name) continue;
+    for (let dir = path.dirname(dirPath); isWithin(scanRoot, dir); dir = path.dirname(dir)) {
+      const names = listing(dir);
+      const found = rule.markers.some((m) => m.startsWith('*.') ? names.some((n) => n.endsWith(m.slice(1))) : names.includes(m));
+      if (found) return { root: dir, rule };
+      if (!rule.anywhere || dir === scanRoot) break;
+    }
+  }
+  return null;
+}
+
+async function newestMtime(root: string, skip: Set<string>, signal?: AbortSignal): Promise<number> {
+  let newest = 0;
+  // Files only: generating an artifact bumps its parent folder's mtime
+  await listPaths(root, (_p, st) => {
+    if (st.isFile()) newest = Math.max(newest, st.mtimeMs);
+    return false;
+  }, { exclude: (p, isDir) => isDir && (skip.has(p) || path.basename(p) === '.git'), signal });
+  if (newest) return newest;
+  try { return (await fs.promises.stat(root)).mtimeMs; } catch { return 0; }
+}
+
+// Artifact folders below `startPath`, grouped by project, largest project first.
+// An aborted scan returns the projects found so far, possibly undersized.
+// Artifact folders are never descended, so nested hits (node_modules inside
+// node_modules) are not double counted.
+export async function scanArtifacts(startPath: string, rules: ArtifactRule[] = ARTIFACT_RULES, walk: WalkSettings = {}, onProgress?: (p: Progress) => void): Promise<ArtifactProject[]> {
+  const listings = new Map<string, string[]>();
+  const listing = (dir: string) => {
+    let names = listings.get(dir);
+    if (!names) {
+      try { names = fs.readdirSync(dir); } catch { names = []; }
+      listings.set(dir, names);
+    }
+    return names;
+  };
+  const names = new Set(rules.map((r) => r.dir));
+  const hits = new Map<string, { root: string; rule: ArtifactRule }>();
+  onProgress?.({ phase: 'finding', processed: 0, total: 0 });
+  await listPaths(startPath, (p, st) => {
+    if (!st.isDirectory() || !names.has(path.basename(p))) return false;
+    const match = projectRootFor(p, rules, startPath, listing);
+    if (match) {
+      hits.set(p, match);
+      onProgress?.({ phase: 'finding', processed: hits.size, total: 0 });
+    }
+    return !!match;
+  }, walk);
+
+  const sized = await sizePaths([...hits.keys()], { ...walk, onProgress });
+  const projects = new Map<string, ArtifactProject>();
+  for (const e of sized) {
+    const {root, rule} = hits.get(e.path)!;
+    const proj = projects.get(root) ?? { root, kb: 0, bytes: 0, lastModified: 0, artifacts: [] };
+    proj.kb += e.kb;
+    proj.bytes += e.bytes ?? e.kb * 1024;
+    proj.artifacts.push({ ...e, rule: rule.label });
+    projects.set(root, proj);
+  }
+
+  const list = [...projects.values()];
+  const skip = new Set(hits.keys());
+  for (const [i, proj] of list.entries()) {
+    onProgress?.({ phase: 'dating', processed: i, total: list.length });
+    proj.lastModified = await newestMtime(proj.root, skip, walk.signal);
+  }
+  list.sort((a, b) => b.kb - a.kb);
+  return list;
+}
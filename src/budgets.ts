@@ -0,0 +1,119 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {humanFromKB, parseSize, ReadStatus, SizeEntry} from './utils.js';
+import {sizePaths, WalkSettings} from './walker.js';
+import type {PresetLocation, Progress} from './scanners.js';
+
+// Disk budgets for `check`: "<target> <op> <size>", where the target is a
+// path ("~/.gradle"), a preset label ("Gradle cache") or free space, optionally
+// of a given filesystem ("free space", "free space /mnt/builds").
+//
+//   ~/.gradle <= 10GB        Xcode DerivedData ≤ 20G        free space ≥ 50GB
+
+export type BudgetOp = '<=' | '<' | '>=' | '>';
+
+export type Budget = {
+  spec: string; // as written
+  kind: 'size' | 'free';
+  target: string; // preset label or the path as written
+  path: string; // absolute: the measured folder, or any path on the filesystem for 'free'
+  op: BudgetOp;
+  limitBytes: number;
+};
+
+// bytes is null when the target could not be measured at all; missing paths measure 0.
+export type BudgetResult = Budget & { bytes: number | null; pass: boolean; missing?: boolean; status?: ReadStatus; error?: string };
+
+const OPS: Array<[string, BudgetOp]> = [['<=', '<='], ['≤', '<='], ['>=', '>='], ['≥', '>='], ['<', '<'], ['>', '>']];
+
+const FREE = /^free(?:\s+space)?(?:\s+(.+))?$/i;
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+// Syntax only: operator and size. Config files are checked with this at load time.
+export function splitBudget(spec: string): { target: string; op: BudgetOp; limitBytes: number } {
+  const at = OPS.map(([sym, op]) => ({ i: spec.indexOf(sym), sym, op })).filter((o) => o.i > 0).sort((a, b) => a.i - b.i || b.sym.length - a.sym.length)[0];
+  if (!at) throw new Error(`budget "${spec}" needs one of <=, <, >=, > (e.g. "~/.gradle <= 10GB")`);
+  const target = spec.slice(0, at.i).trim();
+  const size = spec.slice(at.i + at.sym.length).trim();
+  const limitBytes = parseSize(size);
+  if (!target) throw new Error(`budget "${spec}" names no path, preset label or free space`);
+  if (limitBytes == null) throw new Error(`budget "${spec}": "${size}" is not a size (e.g. 500MB, 10GB, 1.5TB)`);
+  return { target, op: at.op, limitBytes };
+}
+
+// Resolves the target against the preset labels of this OS; `base` is where
+// relative paths and plain "free space" point (the --path).
+export function parseBudget(spec: string, presets: PresetLocation[], base: string): Budget {
+  const { target, op, limitBytes } = splitBudget(spec);
+  const free = FREE.exec(target);
+  if (free) return { spec, kind: 'free', target, path: path.resolve(base, expandHome(free[1]?.trim() || base)), op, limitBytes };
+  if (/^[~./]/.test(target)) return { spec, kind: 'size', target, path: path.resolve(base, expandHome(target)), op, limitBytes };
+  const preset = presets.find((p) => p.label.toLowerCase() === target.toLowerCase());
+  if (!preset) throw new Error(`budget "${spec}": "${target}" is not a path or a preset label on this system (paths start with ~, / or .)`);
+  return { spec, kind: 'size', target: preset.label, path: preset.path, op, limitBytes };
+}
+
+export function withinBudget(bytes: number, op: BudgetOp, limit: number): boolean {
+  switch (op) {
+    case '<=': return bytes <= limit;
+    case '<': return bytes < limit;
+    case '>=': return bytes >= limit;
+    case '>': return bytes > limit;
+  }
+}
+
+export function formatLimit(b: Pick<Budget, 'op' | 'limitBytes'>): string {
+  const sym = b.op === '<=' ? '≤' : b.op === '>=' ? '≥' : b.op;
+  return `${sym} ${humanFromKB(b.limitBytes / 1024)}`;
+}
+
+// Free bytes for unprivileged users, like `df`'s Avail column.
+export async function freeBytes(p: string): Promise<number> {
+  const st = await fs.promises.statfs(p);
+  return st.bavail * st.bsize;
+}
+
+// Every size target is measured by a walker of its own, like `du -s` run once
+// per target: a file hard-linked into two targets counts in both, so no result
+// depends on which walk reached the file first. Free space comes from statfs.
+export async function checkBudgets(budgets: Budget[], walk: WalkSettings = {}, onProgress?: (p: Progress) => void): Promise<BudgetResult[]> {
+  const sizeTargets = [...new Set(budgets.filter((b) => b.kind === 'size').map((b) => b.path))];
+  const measured = new Map<string, SizeEntry>();
+  const total = sizeTargets.length;
+  let processed = 0;
+  onProgress?.({ phase: 'measuring', processed, total });
+  await Promise.all(sizeTargets.map(async (p) => {
+    const [e] = await sizePaths([p], walk);
+    if (e) measured.set(p, e);
+    onProgress?.({ phase: 'measuring', processed: ++processed, total });
+  }));
+  const out: BudgetResult[] = [];
+  for (const b of budgets) {
+    if (b.kind === 'free') {
+      try {
+        const bytes = await freeBytes(b.path);
+        out.push({ ...b, bytes, pass: withinBudget(bytes, b.op, b.limitBytes) });
+      } catch (e: any) {
+        out.push({ ...b, bytes: null, pass: false, error: e?.code === 'ENOENT' ? 'no such path' : e?.message || String(e) });
+      }
+      continue;
+    }
+    const e = measured.get(b.path);
+    if (walk.signal?.aborted && !e) {
+      out.push({ ...b, bytes: null, pass: false, error: 'not measured (cancelled)' });
+      continue;
+    }
+    if (e?.status === 'error') {
+      out.push({ ...b, bytes: null, pass: false, status: e.status, error: 'could not be read' });
+      continue;
+    }
+    // A partial size is a lower bound: a pass is only as good as what could be read
+    const bytes = e?.bytes ?? 0;
+    out.push({ ...b, bytes, pass: withinBudget(bytes, b.op, b.limitBytes), missing: !e, status: e?.status });
+  }
+  return out;
+}
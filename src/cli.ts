@@ -0,0 +1,185 @@
+import path from 'node:path';
+import {Config, emptyConfig, resolvePresets} from './config.js';
+import {PresetLocation} from './scanners.js';
+import {ARTIFACT_RULES, ArtifactRule} from './artifacts.js';
+import {Budget, parseBudget} from './budgets.js';
+import {WatchSettings} from './watch.js';
+import {parseDuration, parseRate, parseSize} from './utils.js';
+
+// Argument parsing shared by the Ink app and the headless (non-TTY / --format) runner.
+// Defaults come from the config file when it sets them. Unknown commands and
+// flags, missing values and malformed numbers, durations, formats or budgets
+// throw; index.tsx prints the message with USAGE and exits with 2.
+
+export type Cmd = 'dirs' | 'files' | 'nodes' | 'preset' | 'diff' | 'restore' | 'dupes' | 'artifacts' | 'stale' | 'types' | 'check' | 'watch' | 'volumes' | 'report';
+
+export const COMMANDS: Cmd[] = ['dirs', 'files', 'nodes', 'preset', 'diff', 'restore', 'dupes', 'artifacts', 'stale', 'types', 'check', 'watch', 'volumes', 'report'];
+
+export type Format = 'json' | 'ndjson' | 'csv' | 'tsv';
+
+export const FORMATS: Format[] = ['json', 'ndjson', 'csv', 'tsv'];
+
+export const USAGE = [
+  'storage-scan (Ink) - disk usage helper for macOS and Linux',
+  '',
+  'Usage:',
+  '  storage-scan dirs   --path PATH --top N --exclude GLOB... [--snapshot]',
+  '  storage-scan files  --path PATH --top N --min-size-mb M --exclude GLOB...',
+  '  storage-scan nodes  --path PATH --top N --exclude GLOB...',
+  '  storage-scan dupes  --path PATH --top N --min-size-mb M --exclude GLOB...',
+  '  storage-scan artifacts --path PATH --top N --older-than 90d --exclude GLOB...',
+  '  storage-scan stale  --path PATH --top N --older-than 180d --exclude GLOB...',
+  '  storage-scan types  --path PATH --exclude GLOB...',
+  '  storage-scan preset --top N',
+  '  storage-scan restore [--last | --id ID | --path ORIGINAL]',
+  '  storage-scan diff   --from SNAPSHOT|latest|30d --to SNAPSHOT|current --path PATH --depth N --top N',
+  '  storage-scan check  --budget "~/.gradle <= 10GB" --budget "free space >= 50GB"... [--path PATH]',
+  '  storage-scan watch  --path PATH... [--preset] --interval 1h --min-free 20GB --max-growth 5GB/h [--notify] [--hook CMD]',
+  '  storage-scan volumes',
+  '  storage-scan report --html FILE --path PATH --exclude GLOB...',
+  '',
+  'Every subcommand accepts --format json|ndjson|csv|tsv. Scans stay on one filesystem unless --cross-mounts is given.',
+  'Exit codes: 0 ok, 1 error, 2 bad arguments or config, 3 a check budget was exceeded.',
+];
+
+export type CliArgs = {
+  cmd: Cmd;
+  startPath: string;
+  pathGiven: boolean;
+  top: number;
+  minSizeMb: number;
+  excludes: string[];
+  debug: boolean;
+  snapshot: boolean;
+  from: string;
+  to: string;
+  depth: number;
+  id?: string;
+  last: boolean;
+  format?: Format;
+  concurrency?: number;
+  crossMounts: boolean; // walk into mounted filesystems below the start
+  presets: PresetLocation[];
+  olderThan?: string; // a duration parseDuration accepts
+  artifactRules: ArtifactRule[];
+  budgets: Budget[]; // config budgets, then --budget
+  watch?: WatchSettings; // watch only
+  html?: string; // report only: absolute path of the page to write
+};
+
+export function isCommand(s: string | undefined): s is Cmd {
+  return COMMANDS.includes(s as Cmd);
+}
+
+export function isFormat(s: string | undefined): s is Format {
+  return FORMATS.includes(s as Format);
+}
+
+// Flags that take a value, and the bare switches.
+const VALUE_FLAGS = ['--path', '--top', '--min-size-mb', '--exclude', '--from', '--to', '--depth', '--id', '--format', '--older-than', '--budget', '--interval', '--min-free', '--max-growth', '--hook', '--html'];
+const SWITCHES = ['--debug', '--snapshot', '--last', '--preset', '--notify', '--cross-mounts', '-h', '--help'];
+
+const DEFAULT_WATCH_INTERVAL = '1h';
+
+function wholeNumber(flag: string, value: string): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) throw new Error(`${flag} expects a whole number of at least 1, got "${value}"`);
+  return parseInt(value, 10);
+}
+
+function formatFlag(value: string): Format {
+  if (!isFormat(value)) throw new Error(`--format expects one of ${FORMATS.join(', ')}, got "${value}"`);
+  return value;
+}
+
+function duration(flag: string, value: string, examples: string): string {
+  if (parseDuration(value) == null) throw new Error(`${flag} expects a duration (e.g. ${examples}), got "${value}"`);
+  return value;
+}
+
+// Watch flags (or the config's `watch` keys, which are already validated) to settings.
+function watchSettings(flags: Record<string, string | true>, config: Config, startPath: string, paths: string[]): WatchSettings {
+  const watch = config.watch ?? {};
+  const interval = (flags['--interval'] as string | undefined) ?? watch.interval ?? DEFAULT_WATCH_INTERVAL;
+  const intervalMs = parseDuration(interval);
+  if (!intervalMs) throw new Error(`--interval expects a duration (e.g. 30m, 6h), got "${interval}"`);
+  const minFree = (flags['--min-free'] as string | undefined) ?? watch.minFree;
+  const minFreeBytes = minFree == null ? undefined : parseSize(minFree);
+  if (minFreeBytes === null) throw new Error(`--min-free expects a size (e.g. 20GB), got "${minFree}"`);
+  const maxGrowth = (flags['--max-growth'] as string | undefined) ?? watch.maxGrowth;
+  const rate = maxGrowth == null ? undefined : parseRate(maxGrowth);
+  if (rate === null) throw new Error(`--max-growth expects a size per period (e.g. 5GB/h, 500MB/10m), got "${maxGrowth}"`);
+  return {
+    paths: (paths.length ? paths : watch.paths ?? [startPath]).map((p) => path.resolve(p)),
+    preset: flags['--preset'] === true || !!watch.preset,
+    intervalMs,
+    minFreeBytes,
+    maxGrowth: rate && maxGrowth ? { ...rate, text: maxGrowth } : undefined,
+    notify: flags['--notify'] === true || !!watch.notify,
+    hook: (flags['--hook'] as string | undefined) ?? watch.hook,
+  };
+}
+
+export function parseArgs(argv: string[], config: Config = emptyConfig()): CliArgs | { cmd: 'help' } {
+  const a = argv[0] === '--' ? argv.slice(1) : argv.slice();
+  const maybeCmd = a[0];
+  if (maybeCmd !== undefined && !maybeCmd.startsWith('-') && !isCommand(maybeCmd)) {
+    throw new Error(`Unknown command "${maybeCmd}" (expected one of ${COMMANDS.join(', ')})`);
+  }
+  const cmd: Cmd = isCommand(maybeCmd) ? maybeCmd : 'preset';
+  let startPath = config.startPath || process.env.HOME || process.cwd();
+  let pathGiven = false;
+  let top = config.top ?? 25;
+  let minSizeMb: number | undefined;
+  const excludes: string[] = [...config.excludes];
+  let debug = false;
+  let snapshot = false;
+  let from = 'latest';
+  let to = 'current';
+  let depth = 2;
+  let id: string | undefined;
+  let last = false;
+  let format: Format | undefined;
+  let olderThan: string | undefined;
+  let crossMounts = config.crossMounts ?? false;
+  let html: string | undefined;
+  const budgetSpecs: string[] = [...config.budgets];
+  const paths: string[] = []; // every --path, for watch
+  const watchFlags: Record<string, string | true> = {};
+
+  for (let i = isCommand(maybeCmd) ? 1 : 0; i < a.length; i++) {
+    const token = a[i]!;
+    if (!VALUE_FLAGS.includes(token) && !SWITCHES.includes(token)) {
+      throw new Error(token.startsWith('-') ? `Unknown option ${token}` : `Unexpected argument "${token}"`);
+    }
+    if (VALUE_FLAGS.includes(token) && (a[i + 1] === undefined || (a[i + 1]!.startsWith('--') && a[i + 1] !== '--'))) {
+      throw new Error(`${token} expects a value`);
+    }
+    if (token === '--path') { startPath = a[++i]!; pathGiven = true; paths.push(startPath); }
+    else if (token === '--top') top = wholeNumber(token, a[++i]!);
+    else if (token === '--min-size-mb') minSizeMb = wholeNumber(token, a[++i]!);
+    else if (token === '--exclude') excludes.push(a[++i]!);
+    else if (token === '--debug') debug = true;
+    else if (token === '--snapshot') snapshot = true;
+    else if (token === '--from') from = a[++i]!;
+    else if (token === '--to') to = a[++i]!;
+    else if (token === '--depth') depth = wholeNumber(token, a[++i]!);
+    else if (token === '--id') id = a[++i]!;
+    else if (token === '--last') last = true;
+    else if (token === '--format') format = formatFlag(a[++i]!);
+    else if (token === '--older-than') olderThan = duration(token, a[++i]!, '90d, 12w');
+    else if (token === '--cross-mounts') crossMounts = true;
+    else if (token === '--budget') budgetSpecs.push(a[++i]!);
+    else if (token === '--html') html = path.resolve(a[++i]!);
+    else if (token === '--interval' || token === '--min-free' || token === '--max-growth' || token === '--hook') watchFlags[token] = a[++i]!;
+    else if (token === '--preset' || token === '--notify') watchFlags[token] = true;
+    else if (token === '-h' || token === '--help') return { cmd: 'help' };
+  }
+  minSizeMb = minSizeMb ?? (cmd === 'dupes' ? 1 : config.minSizeMb ?? 100);
+  const presets = resolvePresets(config);
+  const budgets = cmd === 'check' ? budgetSpecs.map((spec) => parseBudget(spec, presets, startPath)) : [];
+  if (cmd === 'check' && budgets.length === 0) throw new Error('check needs at least one --budget, or "budgets" in the config');
+  if (cmd === 'report' && !html) throw new Error('report needs --html FILE');
+  if (cmd === 'watch' && format !== undefined && format !== 'ndjson') throw new Error(`watch writes log lines, or events with --format ndjson (got --format ${format})`);
+  const watch = cmd === 'watch' ? watchSettings(watchFlags, config, startPath, paths) : undefined;
+  return { cmd, startPath, pathGiven, top, minSizeMb, excludes, debug, snapshot, from, to, depth, id, last, format, concurrency: config.concurrency, crossMounts, presets, olderThan, artifactRules: [...ARTIFACT_RULES, ...config.artifactRules], budgets, watch, html };
+}
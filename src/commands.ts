@@ -0,0 +1,108 @@
+import path from 'node:path';
+import {CliArgs} from './cli.js';
+import {loadExcludes} from './ignore.js';
+import {DupeSet, PresetSection, Progress, scanDirsDepth1, scanDirsSnapshot, scanDuplicates, scanLargeFiles, scanNodeModules, scanPreset} from './scanners.js';
+import {DiffEntry, diffForests, resolveDiffSide} from './diff.js';
+import {ArtifactProject, scanArtifacts} from './artifacts.js';
+import {lastUsed, parseDuration, SizeEntry} from './utils.js';
+import {sizeDirectory} from './walker.js';
+import {TypeSizes} from './filetypes.js';
+import {listTrashed, restoreTrashed, TrashRecord, undoLast, UndoResult} from './trash.js';
+import {BudgetResult, checkBudgets} from './budgets.js';
+import {listVolumes, Volume} from './volumes.js';
+import {buildReport, writeReport} from './report.js';
+
+// What a legacy subcommand produced, independent of how it is shown: the Ink
+// app renders it, the headless runner serializes it (see output.ts).
+export type CommandResult =
+  | { kind: 'sizes'; cmd: 'dirs' | 'files' | 'nodes'; root: string; entries: SizeEntry[] }
+  | { kind: 'preset'; sections: PresetSection[] }
+  | { kind: 'dupes'; root: string; sets: DupeSet[] }
+  | { kind: 'artifacts'; root: string; projects: ArtifactProject[] }
+  | { kind: 'stale'; root: string; entries: SizeEntry[] }
+  | { kind: 'types'; root: string; bytes: number; types: TypeSizes }
+  | { kind: 'diff'; from: string; to: string; entries: DiffEntry[] }
+  | { kind: 'restored'; records: TrashRecord[]; failed?: UndoResult['failed'] }
+  | { kind: 'trashed'; records: TrashRecord[] }
+  | { kind: 'check'; results: BudgetResult[] }
+  | { kind: 'volumes'; volumes: Volume[] }
+  | { kind: 'report'; root: string; file: string; kb: number; files: number; folders: number; unreadable: number };
+
+// Exit code for a finished command: 3 when a check budget failed, 1 when part
+// of an undo failed (1 and 2 are errors and bad arguments, see USAGE).
+export function exitCodeFor(res: CommandResult): number {
+  if (res.kind === 'restored' && res.failed?.length) return 1;
+  return res.kind === 'check' && res.results.some((r) => !r.pass) ? 3 : 0;
+}
+
+// onMeasured streams the entries of dirs, files and nodes as they are found, before sorting.
+export async function runCommand(args: CliArgs, onProgress?: (p: Progress) => void, signal?: AbortSignal, onMeasured?: (e: SizeEntry) => void): Promise<CommandResult> {
+  const root = path.resolve(args.startPath);
+  const walk = { exclude: await loadExcludes(root, args.excludes), concurrency: args.concurrency, signal, oneFileSystem: !args.crossMounts };
+  const listing = { ...walk, onMeasured };
+  switch (args.cmd) {
+    case 'dirs': {
+      const res = args.snapshot
+        ? await scanDirsSnapshot(root, listing, onProgress)
+        : await scanDirsDepth1(root, listing, args.debug, onProgress);
+      return { kind: 'sizes', cmd: 'dirs', root, entries: res.slice(0, args.top) };
+    }
+    case 'files':
+      return { kind: 'sizes', cmd: 'files', root, entries: (await scanLargeFiles(root, args.minSizeMb, listing, onProgress)).slice(0, args.top) };
+    case 'nodes':
+      return { kind: 'sizes', cmd: 'nodes', root, entries: (await scanNodeModules(root, listing, onProgress)).slice(0, args.top) };
+    case 'dupes':
+      return { kind: 'dupes', root, sets: (await scanDuplicates(root, args.minSizeMb, walk, onProgress)).slice(0, args.top) };
+    case 'artifacts': {
+      const minAge = args.olderThan != null ? parseDuration(args.olderThan)! : 0;
+      const projects = (await scanArtifacts(root, args.artifactRules, walk, onProgress)).filter((p) => Date.now() - p.lastModified >= minAge);
+      return { kind: 'artifacts', root, projects: projects.slice(0, args.top) };
+    }
+    case 'stale': {
+      const minAge = args.olderThan != null ? parseDuration(args.olderThan)! : 0;
+      // Folders without any files have no usage times and count as idle forever
+      const entries = (await scanDirsDepth1(root, walk, args.debug, onProgress)).filter((e) => Date.now() - (lastUsed(e) ?? 0) >= minAge);
+      return { kind: 'stale', root, entries: entries.slice(0, args.top) };
+    }
+    case 'types': {
+      const dir = await sizeDirectory(root, { ...walk, onProgress });
+      const bytes = Object.values(dir.types).reduce((sum, b) => sum + b, 0);
+      return { kind: 'types', root, bytes, types: dir.types };
+    }
+    case 'diff': {
+      const before = await resolveDiffSide(args.from);
+      const after = await resolveDiffSide(args.to);
+      const entries = diffForests(before.forest, after.forest, args.depth, args.pathGiven ? root : undefined);
+      return { kind: 'diff', from: before.label, to: after.label, entries: entries.slice(0, args.top) };
+    }
+    case 'restore': {
+      if (args.last) {
+        const {restored, failed} = await undoLast();
+        if (restored.length === 0 && failed.length === 0) throw new Error('Nothing to restore');
+        return { kind: 'restored', records: restored, failed };
+      }
+      if (args.id || args.pathGiven) {
+        const target = args.pathGiven ? root : undefined;
+        const live = await listTrashed();
+        const rec = [...live].reverse().find((r) => r.id === args.id || r.original === target);
+        if (!rec) throw new Error(`No restorable item matches ${args.id ?? target}`);
+        await restoreTrashed(rec);
+        return { kind: 'restored', records: [rec] };
+      }
+      return { kind: 'trashed', records: await listTrashed() };
+    }
+    case 'preset':
+      return { kind: 'preset', sections: await scanPreset(args.presets, args.top, args.excludes, args.concurrency, onProgress, signal) };
+    case 'check':
+      return { kind: 'check', results: await checkBudgets(args.budgets, walk, onProgress) };
+    case 'volumes':
+      return { kind: 'volumes', volumes: await listVolumes() };
+    case 'report': {
+      const data = await buildReport(root, walk, { presets: args.presets, excludes: args.excludes, crossMounts: args.crossMounts, top: args.top }, onProgress);
+      await writeReport(args.html!, data);
+      return { kind: 'report', root, file: args.html!, kb: data.kb, files: data.files, folders: data.folders, unreadable: data.unreadable };
+    }
+    case 'watch':
+      throw new Error('watch runs until stopped and has no single result (see runWatch)');
+  }
+}
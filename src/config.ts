@@ -0,0 +1,206 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {userConfigDir} from './persist.js';
+import {PresetLocation, presetLocations} from './scanners.js';
+import {appliesHere, Platform, PLATFORMS} from './platform.js';
+import {ArtifactRule} from './artifacts.js';
+import {splitBudget} from './budgets.js';
+import {parseDuration, parseRate, parseSize} from './utils.js';
+
+// Optional settings: the user's config.json, overridden by the nearest
+// .storagecleanup.json in the working directory or one of its parents.
+// Command-line flags override both.
+
+export const CONFIG_FILE = 'config.json';
+export const PROJECT_CONFIG_FILE = '.storagecleanup.json';
+
+export type Config = {
+  startPath?: string; // navigator start folder and default --path
+  top?: number; // rows per list
+  minSizeMb?: number; // default --min-size-mb for `files`
+  concurrency?: number; // folders walked in parallel
+  crossMounts?: boolean; // walk into mounted filesystems, unlike `du -x`
+  excludes: string[]; // applied to every scan, before --exclude
+  presets: { add: PresetLocation[]; remove: string[] }; // remove by label or path; add may name platforms
+  artifactRules: ArtifactRule[]; // extra rules for `artifacts`, after the built-in ones
+  budgets: string[]; // `check` budgets, e.g. "~/.gradle <= 10GB"; targets are resolved when parsing arguments
+  watch?: WatchConfig; // `watch` defaults; flags override each key
+  sources: string[]; // files read, lowest precedence first
+};
+
+// Sizes, durations and the rate stay text (validated here) and are parsed with the matching flags.
+export type WatchConfig = { paths?: string[]; preset?: boolean; interval?: string; minFree?: string; maxGrowth?: string; notify?: boolean; hook?: string };
+
+const KEYS = ['startPath', 'top', 'minSizeMb', 'concurrency', 'excludes', 'presets', 'artifactRules', 'budgets', 'watch', 'crossMounts'];
+const WATCH_KEYS = ['paths', 'preset', 'interval', 'minFree', 'maxGrowth', 'notify', 'hook'];
+
+export function emptyConfig(): Config {
+  return { excludes: [], presets: { add: [], remove: [] }, artifactRules: [], budgets: [], sources: [] };
+}
+
+function displayPath(file: string): string {
+  const home = os.homedir();
+  return file.startsWith(home + path.sep) ? `~${file.slice(home.length)}` : file;
+}
+
+// "~/x" is relative to $HOME, anything else relative to the config file.
+function resolvePath(p: string, file: string): string {
+  if (p === '~' || p.startsWith('~/')) return path.join(os.homedir(), p.slice(1));
+  return path.resolve(path.dirname(file), p);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function checkStrings(v: unknown, key: string, fail: (key: string, msg: string) => never): string[] {
+  if (!Array.isArray(v)) fail(key, 'must be an array of strings');
+  v.forEach((s, i) => { if (typeof s !== 'string' || !s) fail(`${key}[${i}]`, 'must be a non-empty string'); });
+  return v as string[];
+}
+
+// Validates one file's contents; errors name the file and the offending key.
+export function parseConfig(raw: string, file: string): Partial<Config> {
+  const fail = (key: string, msg: string): never => { throw new Error(`${displayPath(file)}: "${key}" ${msg}`); };
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e: any) {
+    throw new Error(`${displayPath(file)}: invalid JSON (${e?.message || e})`);
+  }
+  if (!isObject(data)) throw new Error(`${displayPath(file)}: expected a JSON object`);
+  const out: Partial<Config> = {};
+  for (const [key, v] of Object.entries(data)) {
+    if (key === '$schema') continue;
+    if (!KEYS.includes(key)) fail(key, `is not a known key (expected one of ${KEYS.join(', ')})`);
+    if (key === 'startPath') {
+      if (typeof v !== 'string' || !v) fail(key, 'must be a non-empty string');
+      out.startPath = resolvePath(v as string, file);
+    } else if (key === 'top' || key === 'concurrency') {
+      if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) fail(key, 'must be a whole number of at least 1');
+      out[key] = v as number;
+    } else if (key === 'minSizeMb') {
+      if (typeof v !== 'number' || !(v > 0)) fail(key, 'must be a number greater than 0');
+      out.minSizeMb = v as number;
+    } else if (key === 'crossMounts') {
+      if (typeof v !== 'boolean') fail(key, 'must be true or false');
+      out.crossMounts = v as boolean;
+    } else if (key === 'excludes') {
+      out.excludes = checkStrings(v, key, fail);
+    } else if (key === 'presets') {
+      if (!isObject(v)) fail(key, 'must be an object with "add" and/or "remove"');
+      const presets = v as Record<string, unknown>;
+      const add: PresetLocation[] = [];
+      let remove: string[] = [];
+      for (const [sub, sv] of Object.entries(presets)) {
+        if (sub === 'remove') {
+          remove = checkStrings(sv, 'presets.remove', fail).map((r) => r.startsWith('~') ? resolvePath(r, file) : r);
+        } else if (sub === 'add') {
+          if (!Array.isArray(sv)) fail('presets.add', 'must be an array of {"label", "path"} objects');
+          (sv as unknown[]).forEach((loc, i) => {
+            if (!isObject(loc)) fail(`presets.add[${i}]`, 'must be an object with "label" and "path"');
+            const {label, path: p, platforms, ...rest} = loc as Record<string, unknown>;
+            if (typeof label !== 'string' || !label) fail(`presets.add[${i}].label`, 'must be a non-empty string');
+            if (typeof p !== 'string' || !p) fail(`presets.add[${i}].path`, 'must be a non-empty string');
+            const extra = Object.keys(rest)[0];
+            if (extra) fail(`presets.add[${i}].${extra}`, 'is not a known key (expected label, path, platforms)');
+            const entry: PresetLocation = { label: label as string, path: resolvePath(p as string, file) };
+            if (platforms !== undefined) {
+              const list = checkStrings(platforms, `presets.add[${i}].platforms`, fail);
+              list.forEach((pl, j) => { if (!PLATFORMS.includes(pl as Platform)) fail(`presets.add[${i}].platforms[${j}]`, `must be one of ${PLATFORMS.join(', ')}`); });
+              entry.platforms = list as Platform[];
+            }
+            add.push(entry);
+          });
+        } else {
+          fail(`presets.${sub}`, 'is not a known key (expected add, remove)');
+        }
+      }
+      out.presets = { add, remove };
+    } else if (key === 'budgets') {
+      out.budgets = checkStrings(v, key, fail).map((spec, i) => {
+        try {
+          splitBudget(spec);
+        } catch (e: any) {
+          fail(`${key}[${i}]`, e?.message || String(e));
+        }
+        return spec;
+      });
+    } else if (key === 'watch') {
+      if (!isObject(v)) fail(key, `must be an object with any of ${WATCH_KEYS.join(', ')}`);
+      const watch: WatchConfig = {};
+      for (const [sub, sv] of Object.entries(v as Record<string, unknown>)) {
+        const at = `watch.${sub}`;
+        if (sub === 'paths') {
+          watch.paths = checkStrings(sv, at, fail).map((p) => resolvePath(p, file));
+        } else if (sub === 'preset' || sub === 'notify') {
+          if (typeof sv !== 'boolean') fail(at, 'must be true or false');
+          watch[sub] = sv as boolean;
+        } else if (sub === 'interval' || sub === 'minFree' || sub === 'maxGrowth' || sub === 'hook') {
+          if (typeof sv !== 'string' || !sv) fail(at, 'must be a non-empty string');
+          const text = sv as string;
+          if (sub === 'interval' && !parseDuration(text)) fail(at, 'must be a duration (e.g. 30m, 6h)');
+          if (sub === 'minFree' && parseSize(text) == null) fail(at, 'must be a size (e.g. 20GB)');
+          if (sub === 'maxGrowth' && !parseRate(text)) fail(at, 'must be a size per period (e.g. 5GB/h)');
+          watch[sub] = text;
+        } else {
+          fail(at, `is not a known key (expected ${WATCH_KEYS.join(', ')})`);
+        }
+      }
+      out.watch = watch;
+    } else if (key === 'artifactRules') {
+      if (!Array.isArray(v)) fail(key, 'must be an array of {"dir", "markers"} objects');
+      out.artifactRules = (v as unknown[]).map((rule, i) => {
+        const at = `${key}[${i}]`;
+        if (!isObject(rule)) fail(at, 'must be an object with "dir" and "markers"');
+        const {dir, markers, label, anywhere, ...rest} = rule as Record<string, unknown>;
+        if (typeof dir !== 'string' || !dir || dir.includes('/')) fail(`${at}.dir`, 'must be a folder name');
+        const list = checkStrings(markers, `${at}.markers`, fail);
+        if (list.length === 0) fail(`${at}.markers`, 'must name at least one marker file');
+        if (label !== undefined && (typeof label !== 'string' || !label)) fail(`${at}.label`, 'must be a non-empty string');
+        if (anywhere !== undefined && typeof anywhere !== 'boolean') fail(`${at}.anywhere`, 'must be true or false');
+        const extra = Object.keys(rest)[0];
+        if (extra) fail(`${at}.${extra}`, 'is not a known key (expected dir, markers, label, anywhere)');
+        return { dir: dir as string, markers: list, label: (label as string | undefined) ?? (dir as string), anywhere: anywhere as boolean | undefined };
+      });
+    }
+  }
+  return out;
+}
+
+function findProjectConfig(cwd: string): string | null {
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    const file = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(file)) return file;
+    if (path.dirname(dir) === dir) return null;
+  }
+}
+
+// Scalars from later files win; excludes and preset edits accumulate. Throws
+// when a file exists but is invalid.
+export function loadConfig(cwd = process.cwd()): Config {
+  const config = emptyConfig();
+  const files = [path.join(userConfigDir(), CONFIG_FILE), findProjectConfig(cwd)];
+  for (const file of files) {
+    if (!file || !fs.existsSync(file) || config.sources.includes(file)) continue;
+    const part = parseConfig(fs.readFileSync(file, 'utf8'), file);
+    const {excludes, presets, artifactRules, budgets, ...scalars} = part;
+    Object.assign(config, scalars);
+    config.excludes.push(...(excludes || []));
+    config.presets.add.push(...(presets?.add || []));
+    config.presets.remove.push(...(presets?.remove || []));
+    config.artifactRules.push(...(artifactRules || []));
+    config.budgets.push(...(budgets || []));
+    config.sources.push(file);
+  }
+  return config;
+}
+
+// Built-in preset locations minus removed ones, followed by added ones; only
+// those that apply to this OS.
+export function resolvePresets(config: Config): PresetLocation[] {
+  const removed = new Set(config.presets.remove);
+  const builtin = presetLocations.filter((loc) => !removed.has(loc.label) && !removed.has(loc.path));
+  return [...builtin, ...config.presets.add].filter(appliesHere);
+}
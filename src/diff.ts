@@ -0,0 +1,75 @@
+import path from 'node:path';
+import {formatAge, humanFromKB, parseDuration} from './utils.js';
+import {findNode, SizeForest, SizeNode} from './tree.js';
+import {listSnapshots, loadCacheFromDisk, loadSnapshot, SnapshotInfo} from './persist.js';
+
+export type DiffKind = 'grew' | 'shrank' | 'added' | 'removed';
+
+export type DiffEntry = {
+  path: string;
+  beforeKb: number;
+  afterKb: number;
+  deltaKb: number;
+  kind: DiffKind;
+};
+
+export type DiffSide = { label: string; forest: SizeForest };
+
+// Flattens `node` and its descendants up to `depth` levels below it.
+function flatten(dirPath: string, node: SizeNode, depth: number, out: Map<string, number>) {
+  out.set(dirPath, node.kb);
+  if (depth <= 0) return;
+  for (const c of node.children) flatten(path.join(dirPath, c.name), c, depth - 1, out);
+}
+
+// Compares every directory both sides walked, starting at `startPath` or at each
+// root of `after` that `before` also covers. Largest absolute change first.
+export function diffForests(before: SizeForest, after: SizeForest, depth: number, startPath?: string): DiffEntry[] {
+  const starts = startPath ? [startPath] : [...after.keys()].filter((root) => findNode(before, root));
+  const a = new Map<string, number>();
+  const b = new Map<string, number>();
+  for (const start of starts) {
+    const hitA = findNode(before, start);
+    const hitB = findNode(after, start);
+    if (!hitA || !hitB) continue;
+    flatten(start, hitA.node, depth, a);
+    flatten(start, hitB.node, depth, b);
+  }
+  const out: DiffEntry[] = [];
+  for (const p of new Set([...a.keys(), ...b.keys()])) {
+    const beforeKb = a.get(p) ?? 0;
+    const afterKb = b.get(p) ?? 0;
+    const deltaKb = afterKb - beforeKb;
+    if (deltaKb === 0) continue;
+    const kind: DiffKind = !a.has(p) ? 'added' : !b.has(p) ? 'removed' : deltaKb > 0 ? 'grew' : 'shrank';
+    out.push({ path: p, beforeKb, afterKb, deltaKb, kind });
+  }
+  out.sort((x, y) => Math.abs(y.deltaKb) - Math.abs(x.deltaKb));
+  return out;
+}
+
+// Resolves a snapshot reference: an id, "latest", "current" (the live cache) or
+// an age like "30d" meaning the newest snapshot at least that old. Throws when
+// no snapshot is that old rather than comparing a shorter span under its name.
+export async function resolveDiffSide(ref: string): Promise<DiffSide> {
+  if (ref === 'current') return { label: 'current cache', forest: await loadCacheFromDisk() };
+  const snaps = await listSnapshots();
+  if (snaps.length === 0) throw new Error('No snapshots yet. Press s in the navigator or run `dirs --snapshot` first.');
+  let pick: SnapshotInfo | undefined;
+  const age = parseDuration(ref);
+  if (ref === 'latest') pick = snaps[snaps.length - 1];
+  else if (age != null) {
+    pick = [...snaps].reverse().find((s) => s.takenAt <= Date.now() - age);
+    const oldest = snaps[0]!;
+    if (!pick) throw new Error(`No snapshot older than ${ref} (oldest: ${oldest.id}, ${formatAge(Date.now() - oldest.takenAt)} old)`);
+  }
+  else pick = snaps.find((s) => s.id === ref);
+  if (!pick) throw new Error(`Unknown snapshot: ${ref}`);
+  const forest = await loadSnapshot(pick.id);
+  if (!forest) throw new Error(`Snapshot ${pick.id} is unreadable or from an older version`);
+  return { label: `snapshot ${pick.id}`, forest };
+}
+
+export function formatDeltaKb(kb: number): string {
+  return `${kb >= 0 ? '+' : '-'}${humanFromKB(Math.abs(kb))}`;
+}
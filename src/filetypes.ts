@@ -0,0 +1,111 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Coarse file categories for the per-folder type breakdown. Files are
+// classified by extension; large files without a known extension are sniffed
+// by their first bytes. Anything else is 'other'.
+
+export type FileType = 'video' | 'image' | 'audio' | 'archive' | 'diskImage' | 'vm' | 'code' | 'data' | 'other';
+
+export const FILE_TYPES: Array<{ type: FileType; label: string; exts: string[] }> = [
+  { type: 'video', label: 'Video', exts: ['mp4', 'mov', 'm4v', 'mkv', 'avi', 'wmv', 'flv', 'webm', 'mpg', 'mpeg', 'mts', 'm2ts', 'mxf', 'braw', 'r3d', '3gp'] },
+  { type: 'image', label: 'Images', exts: ['jpg', 'jpeg', 'png', 'gif', 'heic', 'heif', 'webp', 'tif', 'tiff', 'bmp', 'svg', 'ico', 'psd', 'dng', 'cr2', 'cr3', 'nef', 'arw', 'orf', 'rw2', 'raf'] },
+  { type: 'audio', label: 'Audio', exts: ['mp3', 'wav', 'aac', 'm4a', 'flac', 'ogg', 'opus', 'aif', 'aiff', 'wma', 'caf'] },
+  { type: 'archive', label: 'Archives', exts: ['zip', 'tar', 'gz', 'tgz', 'bz2', 'tbz2', 'xz', 'txz', 'zst', 'lz4', '7z', 'rar', 'jar', 'whl', 'xip', 'pkg', 'deb', 'rpm'] },
+  { type: 'diskImage', label: 'Disk images', exts: ['dmg', 'iso', 'img', 'sparseimage', 'toast', 'cdr'] },
+  { type: 'vm', label: 'VM images', exts: ['vmdk', 'vdi', 'qcow', 'qcow2', 'vhd', 'vhdx', 'ova', 'hdd', 'vmem', 'vmsn'] },
+  { type: 'code', label: 'Code & binaries', exts: ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'pyc', 'rb', 'go', 'rs', 'java', 'class', 'kt', 'swift', 'c', 'h', 'cc', 'cpp', 'hpp', 'm', 'mm', 'cs', 'php', 'sh', 'json', 'yaml', 'yml', 'toml', 'md', 'html', 'css', 'scss', 'vue', 'svelte', 'o', 'a', 'so', 'dylib', 'dll', 'exe', 'wasm', 'map'] },
+  { type: 'data', label: 'Databases & logs', exts: ['sqlite', 'sqlite3', 'db', 'db-wal', 'db-shm', 'sql', 'ldb', 'mdb', 'realm', 'parquet', 'ibd', 'log', 'journal'] },
+  { type: 'other', label: 'Other', exts: [] },
+];
+
+// Bytes (or KB, depending on the holder) per type; types with nothing are absent.
+export type TypeSizes = Partial<Record<FileType, number>>;
+
+// Smaller files are classified by extension only; opening them isn't worth it.
+export const SNIFF_MIN_BYTES = 1024 * 1024;
+
+const BY_EXT = new Map(FILE_TYPES.flatMap((t) => t.exts.map((e) => [e, t.type] as const)));
+
+export function typeFromName(name: string): FileType | null {
+  // Rotated logs: app.log.1, syslog.2.gz stay logs
+  if (/\.log(\.\d+)?(\.gz)?$/i.test(name)) return 'data';
+  return BY_EXT.get(path.extname(name).slice(1).toLowerCase()) ?? null;
+}
+
+function startsWith(head: Buffer, sig: string | number[], at = 0): boolean {
+  const bytes = typeof sig === 'string' ? Buffer.from(sig, 'latin1') : Buffer.from(sig);
+  return head.length >= at + bytes.length && head.subarray(at, at + bytes.length).equals(bytes);
+}
+
+// Classifies a file by its magic number, or null when it isn't recognised.
+export function typeFromMagic(head: Buffer): FileType | null {
+  if (startsWith(head, 'ftyp', 4)) {
+    const brand = head.subarray(8, 12).toString('latin1');
+    if (['heic', 'heix', 'mif1', 'avif'].includes(brand)) return 'image';
+    return brand.startsWith('M4A') ? 'audio' : 'video';
+  }
+  if (startsWith(head, 'RIFF')) {
+    const form = head.subarray(8, 12).toString('latin1');
+    return form === 'WAVE' ? 'audio' : form === 'WEBP' ? 'image' : form.startsWith('AVI') ? 'video' : null;
+  }
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return 'video'; // Matroska / WebM
+  if (startsWith(head, [0xff, 0xd8, 0xff]) || startsWith(head, [0x89, 0x50, 0x4e, 0x47]) || startsWith(head, 'GIF8')) return 'image';
+  if (startsWith(head, 'II*\0') || startsWith(head, 'MM\0*')) return 'image'; // TIFF and most camera raws
+  if (startsWith(head, 'ID3') || startsWith(head, 'fLaC') || startsWith(head, 'OggS')) return 'audio';
+  if (startsWith(head, 'PK\x03\x04') || startsWith(head, [0x1f, 0x8b]) || startsWith(head, 'BZh') || startsWith(head, [0xfd, 0x37, 0x7a, 0x58, 0x5a])) return 'archive';
+  if (startsWith(head, [0x37, 0x7a, 0xbc, 0xaf]) || startsWith(head, 'Rar!') || startsWith(head, [0x28, 0xb5, 0x2f, 0xfd])) return 'archive';
+  if (startsWith(head, 'KDMV') || startsWith(head, 'QFI\xfb') || startsWith(head, 'vhdxfile') || startsWith(head, 'conectix') || startsWith(head, '<<< Oracle')) return 'vm';
+  if (startsWith(head, 'SQLite format 3\0')) return 'data';
+  if (startsWith(head, [0x7f, 0x45, 0x4c, 0x46]) || startsWith(head, [0xcf, 0xfa, 0xed, 0xfe]) || startsWith(head, [0xca, 0xfe, 0xba, 0xbe])) return 'code'; // ELF, Mach-O
+  return null;
+}
+
+// Reading a file's head would bump its atime (relatime does once a day), and
+// atime is the "last used" time of stale and the navigator. O_NOATIME avoids
+// that where the kernel allows it (Linux, files we own); otherwise the times
+// are put back after the read.
+const O_NOATIME = fs.constants.O_NOATIME ?? 0;
+
+export async function sniffType(p: string): Promise<FileType | null> {
+  let fh: fs.promises.FileHandle | null = null;
+  let times: fs.Stats | null = null;
+  try {
+    if (O_NOATIME) fh = await fs.promises.open(p, fs.constants.O_RDONLY | O_NOATIME).catch(() => null);
+    if (!fh) {
+      fh = await fs.promises.open(p, 'r');
+      times = await fh.stat();
+    }
+    const head = Buffer.alloc(16);
+    const { bytesRead } = await fh.read(head, 0, head.length, 0);
+    return typeFromMagic(head.subarray(0, bytesRead));
+  } catch {
+    return null;
+  } finally {
+    if (fh && times) await fh.utimes(times.atimeMs / 1000, times.mtimeMs / 1000).catch(() => {});
+    await fh?.close().catch(() => {});
+  }
+}
+
+export function addTypeSize(into: TypeSizes, type: FileType, n: number): void {
+  if (n) into[type] = (into[type] ?? 0) + n;
+}
+
+// a + sign * b, dropping types that end up at zero or below.
+export function mergeTypeSizes(a: TypeSizes | undefined, b: TypeSizes | undefined, sign = 1): TypeSizes {
+  const out: TypeSizes = { ...a };
+  for (const [type, n] of Object.entries(b ?? {}) as Array<[FileType, number]>) {
+    const v = (out[type] ?? 0) + sign * n;
+    if (v > 0) out[type] = v;
+    else delete out[type];
+  }
+  return out;
+}
+
+// Largest first, with display labels.
+export function typeBreakdown(sizes: TypeSizes): Array<{ type: FileType; label: string; size: number }> {
+  return FILE_TYPES
+    .filter((t) => sizes[t.type])
+    .map((t) => ({ type: t.type, label: t.label, size: sizes[t.type]! }))
+    .sort((a, b) => b.size - a.size);
+}
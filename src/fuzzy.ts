@@ -0,0 +1,47 @@
+// Subsequence matching for the navigator's filter and find prompts: every
+// query character must appear in order, case-insensitively. Whitespace in the
+// query is ignored.
+
+export type FuzzyMatch = { score: number; positions: number[] }; // positions index into the text
+
+const BOUNDARY = /[\/\-_. ]/;
+
+function isBoundary(text: string, i: number): boolean {
+  if (i === 0) return true;
+  const prev = text[i - 1]!;
+  return BOUNDARY.test(prev) || (prev === prev.toLowerCase() && text[i] !== text[i]!.toLowerCase());
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return { score: 0, positions: [] };
+  const t = text.toLowerCase();
+  // Leftmost end of a match, then walk back to the latest start so the window is tight
+  let qi = 0;
+  let end = -1;
+  for (let i = 0; i < t.length; i++) {
+    if (t[i] === q[qi] && ++qi === q.length) { end = i; break; }
+  }
+  if (end < 0) return null;
+  let start = end;
+  for (let i = end, k = q.length - 1; k >= 0; i--) {
+    if (t[i] === q[k]) { start = i; k--; }
+  }
+  const positions: number[] = [];
+  let score = 0;
+  for (let i = start, k = 0; k < q.length; i++) {
+    if (t[i] !== q[k]) continue;
+    score += 1;
+    if (positions.length && positions[positions.length - 1] === i - 1) score += 4;
+    if (isBoundary(text, i)) score += 3;
+    positions.push(i);
+    k++;
+  }
+  score -= (end - start + 1 - q.length) * 0.1;
+  return { score, positions };
+}
+
+// Keeps the items whose key matches, in their original order.
+export function fuzzyFilter<T>(items: T[], query: string, key: (item: T) => string): T[] {
+  return items.filter((it) => fuzzyMatch(query, key(it)) != null);
+}
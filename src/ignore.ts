@@ -0,0 +1,95 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {userConfigDir} from './persist.js';
+
+// Exclude patterns follow .gitignore rules: `*`, `?` and `[...]` stay within one
+// path segment, `**` spans any number of them, a pattern containing a slash is
+// anchored at the scan root (or is an absolute path), a trailing slash only
+// matches folders and `!` re-includes. The last matching pattern wins.
+
+export const IGNORE_FILE = '.storagecleanupignore';
+
+// True when `absPath` is excluded. The walker calls it before descending, so an
+// excluded folder is never read and nothing below it can be re-included.
+export type ExcludeMatcher = (absPath: string, isDir: boolean) => boolean;
+
+type Rule = { negate: boolean; dirOnly: boolean; anchored: boolean; re: RegExp };
+
+export const NO_EXCLUDES: ExcludeMatcher = () => false;
+
+function escapeRe(c: string): string {
+  return c.replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+}
+
+function globToRegExp(glob: string): RegExp {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') { i++; out += '(?:.*/)?'; } // "**/": zero or more folders
+      else out += '.*';
+    } else if (c === '*') {
+      out += '[^/]*';
+    } else if (c === '?') {
+      out += '[^/]';
+    } else if (c === '[' && glob.indexOf(']', i + 2) > 0) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      out += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else if (c === '\\' && i + 1 < glob.length) {
+      out += escapeRe(glob[++i]!);
+    } else {
+      out += escapeRe(c);
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+function parseRule(line: string): Rule | null {
+  let p = line.trim();
+  if (!p || p.startsWith('#')) return null;
+  const negate = p.startsWith('!');
+  if (negate) p = p.slice(1);
+  const dirOnly = p.endsWith('/');
+  p = p.replace(/\/+$/, '');
+  if (!p) return null;
+  const anchored = p.includes('/');
+  return { negate, dirOnly, anchored, re: globToRegExp(p.replace(/^\//, '')) };
+}
+
+function matches(rule: Rule, root: string, absPath: string, isDir: boolean): boolean {
+  if (rule.dirOnly && !isDir) return false;
+  if (!rule.anchored) return rule.re.test(path.basename(absPath));
+  const rel = path.relative(root, absPath);
+  return (!!rel && !rel.startsWith('..') && rule.re.test(rel.split(path.sep).join('/'))) || rule.re.test(absPath.slice(1));
+}
+
+export function compileExcludes(root: string, patterns: string[]): ExcludeMatcher {
+  const rules = patterns.map(parseRule).filter((r): r is Rule => !!r);
+  if (rules.length === 0) return NO_EXCLUDES;
+  return (absPath, isDir) => {
+    let excluded = false;
+    for (const rule of rules) {
+      if (matches(rule, root, absPath, isDir)) excluded = !rule.negate;
+    }
+    return excluded;
+  };
+}
+
+async function readIgnoreFile(file: string): Promise<string[]> {
+  try {
+    return (await fs.promises.readFile(file, 'utf8')).split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
+
+// Patterns from the user's ignore file, then the one in `root`, then `extra`
+// (the --exclude flags), so later, more specific sources win.
+export async function loadExcludes(root: string, extra: string[] = []): Promise<ExcludeMatcher> {
+  const user = await readIgnoreFile(path.join(userConfigDir(), IGNORE_FILE));
+  const local = await readIgnoreFile(path.join(root, IGNORE_FILE));
+  return compileExcludes(root, [...user, ...local, ...extra]);
+}
@@ -3,10 +3,46 @@ import React from 'react';
 import {render} from 'ink';
 import App from './ui/App.js';
 import Navigator from './ui/Navigator.js';
+import {CliArgs, isCommand, parseArgs, USAGE} from './cli.js';
+import {Config, loadConfig} from './config.js';
+import {runHeadless} from './output.js';
+import {runWatch} from './watch.js';
 
 const argv = process.argv.slice(2);
 const first = argv[0];
-const legacy = first === 'dirs' || first === 'files' || first === 'nodes' || first === 'preset' || first === '--';
+const legacy = isCommand(first) || first === '--';
 const nonTty = !process.stdin.isTTY; // fallback to non-interactive UI when no TTY
 
-render(legacy || nonTty ? <App /> : <Navigator />);
+let config: Config;
+try {
+  config = loadConfig();
+} catch (e: any) {
+  console.error(`Invalid config: ${e?.message || e}`);
+  process.exit(2);
+}
+let args: CliArgs | { cmd: 'help' };
+try {
+  args = parseArgs(argv, config);
+} catch (e: any) {
+  console.error(`${e?.message || e}\n`);
+  console.error(USAGE.join('\n'));
+  process.exit(2);
+}
+
+// Bad arguments have already exited with 2; anything thrown from here on is a runtime failure.
+function fail(e: any): void {
+  console.error(`Error: ${e?.message || e}`);
+  process.exitCode = 1;
+}
+
+// watch logs until stopped; Ctrl+C and SIGTERM end the current walk and exit.
+if (args.cmd === 'watch') {
+  const stop = new AbortController();
+  process.once('SIGINT', () => stop.abort());
+  process.once('SIGTERM', () => stop.abort());
+  runWatch(args, stop.signal).then((code) => { process.exitCode = code; }).catch(fail);
+} else if ((args.cmd !== 'help' && args.format) || !process.stdout.isTTY) {
+  runHeadless(args).then((code) => { process.exitCode = code; }).catch(fail);
+} else {
+  render(legacy || nonTty ? <App config={config} /> : <Navigator config={config} />);
+}
@@ -0,0 +1,162 @@
+import {ageBucket, humanFromKB, lastUsed, SizeEntry} from './utils.js';
+import {CliArgs, Format, USAGE} from './cli.js';
+import {CommandResult, exitCodeFor, runCommand} from './commands.js';
+import {formatDeltaKb} from './diff.js';
+import {typeBreakdown} from './filetypes.js';
+import type {Progress} from './scanners.js';
+import type {TrashRecord} from './trash.js';
+
+// Machine-readable output for the legacy subcommands. The record shapes below
+// are the documented schema (README "Machine-readable output"); add fields at
+// the end and bump SCHEMA_VERSION when an existing field changes meaning.
+
+export const SCHEMA_VERSION = 1;
+
+type Value = string | number | boolean | null;
+
+export type OutputRecord = Record<string, Value>;
+
+type Table = { columns: string[]; records: OutputRecord[]; meta: OutputRecord };
+
+// dirs, files, nodes, preset and dupes
+const SIZE_COLUMNS = ['section', 'label', 'path', 'bytes', 'kb', 'human'];
+const READ_COLUMNS = ['status', 'unreadable']; // walked sizes only: dirs, files, nodes, preset, stale
+const ARTIFACT_COLUMNS = [...SIZE_COLUMNS, 'projectModified'];
+const STALE_COLUMNS = [...SIZE_COLUMNS, 'lastModified', 'lastAccessed', ...READ_COLUMNS];
+const TYPE_COLUMNS = ['type', 'label', 'bytes', 'kb', 'human', 'percent'];
+const DIFF_COLUMNS = ['path', 'kind', 'beforeBytes', 'afterBytes', 'deltaBytes', 'deltaHuman'];
+const TRASH_COLUMNS = ['id', 'original', 'stored', 'method', 'deletedAt', 'restored', 'error'];
+const VOLUME_COLUMNS = ['mount', 'device', 'type', 'totalBytes', 'usedBytes', 'freeBytes', 'usedPercent'];
+const REPORT_COLUMNS = ['file', 'root', 'bytes', 'human', 'files', 'folders', 'unreadable'];
+const CHECK_COLUMNS = ['budget', 'kind', 'target', 'path', 'op', 'limitBytes', 'bytes', 'human', 'result', 'status', 'error'];
+
+function sizeRecord(e: SizeEntry, section: string | null): OutputRecord {
+  return { section, label: e.label ?? null, path: e.path, bytes: e.bytes ?? e.kb * 1024, kb: e.kb, human: humanFromKB(e.kb) };
+}
+
+function readRecord(e: SizeEntry): OutputRecord {
+  return { status: e.status ?? 'ok', unreadable: e.unreadable ?? 0 };
+}
+
+export function toTable(res: CommandResult): Table {
+  switch (res.kind) {
+    case 'sizes':
+      return { columns: [...SIZE_COLUMNS, ...READ_COLUMNS], records: res.entries.map((e) => ({ ...sizeRecord(e, null), ...readRecord(e) })), meta: { root: res.root } };
+    case 'preset':
+      return { columns: [...SIZE_COLUMNS, ...READ_COLUMNS], records: res.sections.flatMap((s) => s.entries.map((e) => ({ ...sizeRecord(e, s.label), ...readRecord(e) }))), meta: {} };
+    case 'dupes':
+      return {
+        columns: SIZE_COLUMNS,
+        records: res.sets.flatMap((set) => set.paths.map((p) => sizeRecord({ kb: set.kb, bytes: set.bytes, path: p }, `sha256:${set.hash}`))),
+        meta: { root: res.root },
+      };
+    case 'artifacts':
+      return {
+        columns: ARTIFACT_COLUMNS,
+        records: res.projects.flatMap((proj) => proj.artifacts.map((a) => ({ ...sizeRecord({ ...a, label: a.rule }, proj.root), projectModified: new Date(proj.lastModified).toISOString() }))),
+        meta: { root: res.root },
+      };
+    case 'stale': {
+      const iso = (ms?: number) => ms == null ? null : new Date(ms).toISOString();
+      return {
+        columns: STALE_COLUMNS,
+        records: res.entries.map((e) => ({ ...sizeRecord(e, ageBucket(Date.now() - (lastUsed(e) ?? 0))), lastModified: iso(e.modifiedAt), lastAccessed: iso(e.accessedAt), ...readRecord(e) })),
+        meta: { root: res.root },
+      };
+    }
+    case 'types':
+      return {
+        columns: TYPE_COLUMNS,
+        records: typeBreakdown(res.types).map((t) => {
+          const kb = Math.ceil(t.size / 1024);
+          return { type: t.type, label: t.label, bytes: t.size, kb, human: humanFromKB(kb), percent: res.bytes > 0 ? Math.round((t.size / res.bytes) * 1000) / 10 : 0 };
+        }),
+        meta: { root: res.root, bytes: res.bytes },
+      };
+    case 'diff':
+      // Tree sizes are stored in KB, so diff bytes are KB-granular
+      return {
+        columns: DIFF_COLUMNS,
+        records: res.entries.map((e) => ({ path: e.path, kind: e.kind, beforeBytes: e.beforeKb * 1024, afterBytes: e.afterKb * 1024, deltaBytes: e.deltaKb * 1024, deltaHuman: formatDeltaKb(e.deltaKb) })),
+        meta: { from: res.from, to: res.to },
+      };
+    case 'restored':
+    case 'trashed': {
+      const trashRecord = (r: TrashRecord, restored: boolean, error: string | null): OutputRecord => ({ id: r.id, original: r.original, stored: r.stored, method: r.method, deletedAt: new Date(r.at).toISOString(), restored, error });
+      const failed = res.kind === 'restored' ? res.failed ?? [] : [];
+      return {
+        columns: TRASH_COLUMNS,
+        records: [...res.records.map((r) => trashRecord(r, res.kind === 'restored', null)), ...failed.map((f) => trashRecord(f.record, false, f.error))],
+        meta: {},
+      };
+    }
+    case 'check':
+      return {
+        columns: CHECK_COLUMNS,
+        records: res.results.map((r) => ({
+          budget: r.spec, kind: r.kind, target: r.target, path: r.path, op: r.op, limitBytes: r.limitBytes, bytes: r.bytes,
+          human: r.bytes == null ? null : humanFromKB(r.bytes / 1024),
+          result: r.pass ? 'pass' : 'fail',
+          status: r.missing ? 'missing' : r.status ?? 'ok',
+          error: r.error ?? null,
+        })),
+        meta: { passed: res.results.filter((r) => r.pass).length, failed: res.results.filter((r) => !r.pass).length },
+      };
+    case 'volumes':
+      return {
+        columns: VOLUME_COLUMNS,
+        records: res.volumes.map((v) => ({ mount: v.mount, device: v.device, type: v.type, totalBytes: v.totalBytes, usedBytes: v.usedBytes, freeBytes: v.freeBytes, usedPercent: v.usedPercent })),
+        meta: {},
+      };
+    case 'report':
+      return {
+        columns: REPORT_COLUMNS,
+        records: [{ file: res.file, root: res.root, bytes: res.kb * 1024, human: humanFromKB(res.kb), files: res.files, folders: res.folders, unreadable: res.unreadable }],
+        meta: {},
+      };
+  }
+}
+
+function delimitedValue(v: Value, sep: string): string {
+  if (v == null) return '';
+  const s = String(v);
+  if (sep === '\t') return s.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n');
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function delimited(table: Table, sep: string): string {
+  const lines = [table.columns.join(sep)];
+  for (const r of table.records) lines.push(table.columns.map((c) => delimitedValue(r[c] ?? null, sep)).join(sep));
+  return lines.join('\n') + '\n';
+}
+
+export function serialize(format: Format, command: string, table: Table): string {
+  if (format === 'json') {
+    const doc = { schema: SCHEMA_VERSION, command, generatedAt: new Date().toISOString(), ...table.meta, records: table.records };
+    return JSON.stringify(doc, null, 2) + '\n';
+  }
+  if (format === 'ndjson') return table.records.map((r) => JSON.stringify(r) + '\n').join('');
+  return delimited(table, format === 'csv' ? ',' : '\t');
+}
+
+// Runs a subcommand without Ink and writes the result to stdout. Used for
+// --format and whenever stdout is not a terminal (tsv unless told otherwise).
+// Returns the process exit code.
+export async function runHeadless(args: CliArgs | { cmd: 'help' }): Promise<number> {
+  if (args.cmd === 'help') {
+    process.stdout.write(USAGE.join('\n') + '\n');
+    return 0;
+  }
+  const format = args.format ?? 'tsv';
+  const onProgress = format === 'ndjson'
+    ? (p: Progress) => { process.stderr.write(JSON.stringify({ type: 'progress', ...p }) + '\n'); }
+    : undefined;
+  try {
+    const res = await runCommand(args, onProgress);
+    process.stdout.write(serialize(format, args.cmd, toTable(res)));
+    return exitCodeFor(res);
+  } catch (e: any) {
+    process.stderr.write(`Error: ${e?.message || String(e)}\n`);
+    return 1;
+  }
+}
@@ -1,54 +1,200 @@
 import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
-import {SizeEntry} from './utils.js';
+import zlib from 'node:zlib';
+import {parseDuration} from './utils.js';
+import {PackedNode, SizeForest, SizeNode, packNode, unpackNode} from './tree.js';
+import {currentPlatform} from './platform.js';
 
+// Bump when the on-disk layout changes; older files are ignored, not migrated.
+const CACHE_VERSION = 1;
+const DEFAULT_TTL = '7d';
+const LOCK_STALE_MS = 30_000;
+const LOCK_TIMEOUT_MS = 5_000;
+
+// One entry per scanned root; the packed tree holds every directory below it.
 type PersistEntry = {
   lastScan: number;
-  dirs: SizeEntry[];
-  files: SizeEntry[];
+  tree: PackedNode;
 };
 
 type PersistMap = Record<string, PersistEntry>;
 
-function repoCacheDir(): string {
-  // Cache under the current working directory so it sits alongside the project
-  const dir = path.join(process.cwd(), '.storage-cleanup-cache');
-  try { fs.mkdirSync(dir, {recursive: true}); } catch {}
-  return dir;
+type PersistFile = {
+  version: number;
+  roots: PersistMap;
+};
+
+type SnapshotFile = PersistFile & { takenAt: number };
+
+export type SnapshotInfo = { id: string; takenAt: number };
+
+export function userCacheDir(): string {
+  const home = os.homedir();
+  if (process.env.XDG_CACHE_HOME) return path.join(process.env.XDG_CACHE_HOME, 'storage-cleanup');
+  if (currentPlatform() === 'darwin') return path.join(home, 'Library', 'Caches', 'storage-cleanup');
+  return path.join(home, '.cache', 'storage-cleanup');
+}
+
+// Hand-edited settings (ignore file, config) live here on every platform.
+export function userConfigDir(): string {
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'storage-cleanup');
 }
 
 function cacheFilePath(): string {
-  return path.join(repoCacheDir(), 'cache.json');
+  return path.join(userCacheDir(), 'tree.json.gz');
 }
 
-export async function loadCacheFromDisk(): Promise<Map<string, any>> {
-  const file = cacheFilePath();
-  try {
-    const raw = fs.readFileSync(file, 'utf8');
-    const data: PersistMap = JSON.parse(raw);
-    const map = new Map<string, any>();
-    for (const [p, val] of Object.entries(data)) {
-      map.set(p, {
-        status: 'scanned',
-        path: p,
-        alphaDirs: [],
-        dirs: val.dirs,
-        files: val.files,
-        lastScan: val.lastScan
-      });
+function snapshotDir(): string {
+  return path.join(userCacheDir(), 'snapshots');
+}
+
+// How long a scan stays fresh; override with STORAGE_CLEANUP_CACHE_TTL (e.g. "12h", "30d").
+export function cacheTtlMs(): number {
+  const fromEnv = process.env.STORAGE_CLEANUP_CACHE_TTL;
+  return (fromEnv && parseDuration(fromEnv)) || parseDuration(DEFAULT_TTL)!;
+}
+
+export function isExpired(scannedAt: number, now = Date.now()): boolean {
+  return now - scannedAt > cacheTtlMs();
+}
+
+// Directories whose mtime moved since they were walked, i.e. entries were
+// added, removed or renamed directly inside them. Missing ones count as changed.
+export async function changedSinceScan(targets: Array<{path: string; node: SizeNode}>): Promise<string[]> {
+  const changed: string[] = [];
+  await Promise.all(targets.map(async ({path: p, node}) => {
+    try {
+      const st = await fs.promises.lstat(p);
+      if (Math.floor(st.mtimeMs / 1000) !== node.mtime) changed.push(p);
+    } catch {
+      changed.push(p);
+    }
+  }));
+  return changed;
+}
+
+async function withCacheLock<T>(fn: () => Promise<T>): Promise<T> {
+  const lockFile = `${cacheFilePath()}.lock`;
+  const started = Date.now();
+  while (true) {
+    try {
+      const handle = await fs.promises.open(lockFile, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (err: any) {
+      if (err?.code !== 'EEXIST') throw err;
+      const st = await fs.promises.stat(lockFile).catch(() => null);
+      if (st && Date.now() - st.mtimeMs > LOCK_STALE_MS) {
+        await fs.promises.rm(lockFile, {force: true}); // left behind by a crashed run
+        continue;
+      }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) throw new Error(`Cache is locked by another run (${lockFile})`);
+      await new Promise((r) => setTimeout(r, 100));
     }
-    return map;
+  }
+  try {
+    return await fn();
+  } finally {
+    await fs.promises.rm(lockFile, {force: true});
+  }
+}
+
+async function readCacheFile(): Promise<PersistMap> {
+  try {
+    const raw = zlib.gunzipSync(await fs.promises.readFile(cacheFilePath())).toString('utf8');
+    const data: PersistFile = JSON.parse(raw);
+    return data.version === CACHE_VERSION && data.roots ? data.roots : {};
   } catch {
-    return new Map();
+    return {};
   }
 }
 
-export async function saveCacheToDisk(dirPath: string, entry: PersistEntry): Promise<void> {
-  const file = cacheFilePath();
-  let data: PersistMap = {};
+function overlaps(a: string, b: string): boolean {
+  const rel = path.relative(a, b);
+  const relBack = path.relative(b, a);
+  return !rel.startsWith('..') || !relBack.startsWith('..');
+}
+
+function toForest(data: PersistMap): SizeForest {
+  const forest: SizeForest = new Map();
+  for (const [p, val] of Object.entries(data)) {
+    const node = unpackNode(val.tree);
+    node.scannedAt = node.scannedAt ?? val.lastScan;
+    forest.set(p, node);
+  }
+  return forest;
+}
+
+function toPersistMap(forest: SizeForest): PersistMap {
+  const data: PersistMap = {};
+  for (const [p, node] of forest) {
+    data[p] = { lastScan: node.scannedAt ?? Date.now(), tree: packNode(node) };
+  }
+  return data;
+}
+
+// Readers never see a half-written file: write beside it, then rename over it.
+export async function writeAtomic(file: string, contents: Buffer | string): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, contents);
+  await fs.promises.rename(tmp, file);
+}
+
+export async function loadCacheFromDisk(): Promise<SizeForest> {
+  return toForest(await readCacheFile());
+}
+
+// Writes the forest atomically under a lock. Roots another run saved meanwhile
+// are kept unless one of ours covers or sits below them.
+export async function saveCacheToDisk(forest: SizeForest): Promise<void> {
+  await fs.promises.mkdir(userCacheDir(), {recursive: true});
+  await withCacheLock(async () => {
+    const data: PersistMap = {};
+    for (const [p, val] of Object.entries(await readCacheFile())) {
+      if (![...forest.keys()].some((root) => overlaps(root, p))) data[p] = val;
+    }
+    Object.assign(data, toPersistMap(forest));
+    const file: PersistFile = { version: CACHE_VERSION, roots: data };
+    await writeAtomic(cacheFilePath(), zlib.gzipSync(JSON.stringify(file)));
+  });
+}
+
+// Snapshots are frozen copies of the size tree, one file per point in time.
+export async function saveSnapshot(forest: SizeForest, takenAt = Date.now()): Promise<SnapshotInfo> {
+  await fs.promises.mkdir(snapshotDir(), {recursive: true});
+  const id = new Date(takenAt).toISOString().replace(/[:.]/g, '-');
+  const file: SnapshotFile = { version: CACHE_VERSION, takenAt, roots: toPersistMap(forest) };
+  await writeAtomic(path.join(snapshotDir(), `${id}.json.gz`), zlib.gzipSync(JSON.stringify(file)));
+  return { id, takenAt };
+}
+
+// Oldest first. The id is the ISO timestamp with ':' and '.' made file-safe.
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  let names: string[] = [];
+  try { names = await fs.promises.readdir(snapshotDir()); } catch {}
+  const out: SnapshotInfo[] = [];
+  for (const name of names) {
+    if (!name.endsWith('.json.gz')) continue;
+    const id = name.slice(0, -'.json.gz'.length);
+    const takenAt = Date.parse(id.replace(/T(\d\d)-(\d\d)-(\d\d)-(\d+)Z$/, 'T$1:$2:$3.$4Z'));
+    if (Number.isFinite(takenAt)) out.push({ id, takenAt });
+  }
+  return out.sort((a, b) => a.takenAt - b.takenAt);
+}
+
+async function readSnapshotFile(id: string): Promise<SnapshotFile | null> {
   try {
-    data = JSON.parse(fs.readFileSync(file, 'utf8'));
-  } catch {}
-  data[dirPath] = entry;
-  fs.writeFileSync(file, JSON.stringify(data, null, 2));
+    const raw = zlib.gunzipSync(await fs.promises.readFile(path.join(snapshotDir(), `${id}.json.gz`))).toString('utf8');
+    const data: SnapshotFile = JSON.parse(raw);
+    return data.version === CACHE_VERSION && data.roots ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadSnapshot(id: string): Promise<SizeForest | null> {
+  const snap = await readSnapshotFile(id);
+  return snap ? toForest(snap.roots) : null;
 }
@@ -0,0 +1,70 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import {spawn} from 'node:child_process';
+
+// OS-specific behaviour lives here. Sizing needs no backend switch: the walker
+// reads allocated blocks via lstat on both systems, and the remaining `find`
+// fallback only uses flags BSD and GNU find share.
+
+export type Platform = 'darwin' | 'linux';
+
+export const PLATFORMS: Platform[] = ['darwin', 'linux'];
+
+// Anything that isn't macOS follows the freedesktop conventions.
+export function currentPlatform(): Platform {
+  return process.platform === 'darwin' ? 'darwin' : 'linux';
+}
+
+export function appliesHere(entry: { platforms?: Platform[] }): boolean {
+  return !entry.platforms || entry.platforms.includes(currentPlatform());
+}
+
+// Shows a folder in Finder or the desktop's file manager.
+export function openInFileManager(p: string): void {
+  const cmd = currentPlatform() === 'darwin' ? 'open' : 'xdg-open';
+  const ps = spawn(cmd, [p], {stdio: 'ignore', detached: true});
+  ps.on('error', () => {}); // no opener installed (e.g. a headless box)
+  ps.unref();
+}
+
+// Folders below $HOME that the preset breaks down one level deep.
+export function presetFolders(): string[] {
+  return currentPlatform() === 'darwin' ? ['Downloads', 'Movies', 'Library'] : ['Downloads', 'Videos', '.cache', '.local/share'];
+}
+
+// Resolves once the command has exited; a missing command is not an error.
+function runQuietly(cmd: string, args: string[]): Promise<void> {
+  return new Promise((resolve) => {
+    const ps = spawn(cmd, args, {stdio: 'ignore'});
+    ps.on('error', () => resolve());
+    ps.on('exit', () => resolve());
+  });
+}
+
+// Drops this process (and the walks it runs) to the lowest CPU and I/O
+// priority: idle-class ionice on Linux, background policy on macOS. On Linux
+// both are per thread, so every thread is lowered, including libuv's pool
+// where the walker's opendir/lstat run; the pool is started first.
+export async function lowerPriority(): Promise<void> {
+  if (currentPlatform() === 'darwin') {
+    try { os.setPriority(os.constants.priority.PRIORITY_LOW); } catch {}
+    await runQuietly('taskpolicy', ['-b', '-p', String(process.pid)]);
+    return;
+  }
+  await fs.promises.stat('.').catch(() => {});
+  let tids = [process.pid];
+  try { tids = fs.readdirSync('/proc/self/task').map(Number); } catch {}
+  for (const tid of tids) {
+    try { os.setPriority(tid, os.constants.priority.PRIORITY_LOW); } catch {}
+  }
+  await runQuietly('ionice', ['-c', '3', '-p', ...tids.map(String)]); // not installed: CPU priority still applies
+}
+
+// Desktop notification through osascript or notify-send; silently skipped
+// where neither is available.
+export function notifyDesktop(title: string, message: string): void {
+  const ps = currentPlatform() === 'darwin'
+    ? spawn('osascript', ['-e', `display notification ${JSON.stringify(message)} with title ${JSON.stringify(title)}`], {stdio: 'ignore'})
+    : spawn('notify-send', ['--app-name', 'storage-cleanup', title, message], {stdio: 'ignore'});
+  ps.on('error', () => {});
+}
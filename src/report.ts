@@ -0,0 +1,166 @@
+import os from 'node:os';
+import path from 'node:path';
+import {sizeDirectory, WalkSettings} from './walker.js';
+import {findNode, isWithin, SizeNode} from './tree.js';
+import {writeAtomic} from './persist.js';
+import {currentPlatform, presetFolders} from './platform.js';
+import {listMounts, mountOf, statVolume} from './volumes.js';
+import {renderReportHtml} from './reportHtml.js';
+import type {PresetLocation, Progress} from './scanners.js';
+
+// `report --html`: one walk of --path, written as a single offline HTML file
+// (treemap and sunburst, a sortable table, preset totals and scan details)
+// that can be attached to a ticket or opened on another machine.
+
+// Compact tree for the page. s is KB; fc/dc are file and folder counts, m the
+// newest file mtime in seconds and u the unreadable paths. File leaves have file: 1.
+export type ReportNode = { n: string; s: number; c?: ReportNode[]; fc?: number; dc?: number; m?: number; u?: number; file?: 1 };
+
+export type ReportSection = { label: string; entries: Array<{ label?: string; path: string; kb: number }> };
+
+export type ReportData = {
+  root: string;
+  generatedAt: string; // ISO
+  durationMs: number;
+  host: string;
+  platform: string;
+  excludes: string[];
+  crossMounts: boolean;
+  kb: number;
+  files: number;
+  folders: number;
+  unreadable: number;
+  shownNodes: number; // nodes in `tree`; the rest is folded into each parent's remainder
+  disk?: { mount: string; type: string; totalBytes: number; freeBytes: number; usedPercent: number };
+  sections: ReportSection[];
+  tree: ReportNode;
+};
+
+export type ReportOptions = { presets: PresetLocation[]; excludes: string[]; crossMounts: boolean; top: number };
+
+// Keeps the page light on huge trees: only the largest folders and files are
+// embedded; whatever is left out still counts in its parent's size.
+const MAX_NODES = 20_000;
+
+// What makes the cut: every entry above `floor`, and the first `ties` entries
+// of exactly that size. Sizes are whole blocks, so ties are common.
+type Cut = { floor: number; ties: number };
+
+function sizeCut(tree: SizeNode, limit: number): Cut {
+  const sizes: number[] = [];
+  const visit = (n: SizeNode) => {
+    sizes.push(n.kb);
+    for (const f of n.files || []) sizes.push(f.kb);
+    n.children.forEach(visit);
+  };
+  visit(tree);
+  if (sizes.length <= limit) return { floor: 0, ties: Infinity };
+  sizes.sort((a, b) => b - a);
+  const floor = sizes[limit - 1]!;
+  return { floor, ties: limit - sizes.indexOf(floor) };
+}
+
+function admit(cut: Cut, kb: number): boolean {
+  if (kb > cut.floor) return true;
+  if (kb < cut.floor || cut.ties <= 0) return false;
+  cut.ties--;
+  return true;
+}
+
+function toReportNode(n: SizeNode, cut: Cut, counter: { nodes: number }): ReportNode {
+  counter.nodes++;
+  const out: ReportNode = { n: n.name, s: n.kb };
+  if (n.fileCount) out.fc = n.fileCount;
+  if (n.dirCount) out.dc = n.dirCount;
+  if (n.newestMtime) out.m = n.newestMtime;
+  if (n.unreadable) out.u = n.unreadable;
+  const kids = n.children.filter((c) => admit(cut, c.kb)).map((c) => toReportNode(c, cut, counter));
+  for (const f of n.files || []) {
+    if (!admit(cut, f.kb)) continue;
+    counter.nodes++;
+    kids.push({ n: f.name, s: f.kb, file: 1 });
+  }
+  if (kids.length) out.c = kids.sort((a, b) => b.s - a.s);
+  return out;
+}
+
+// The page's tree: the `limit` largest folders and files, and whatever they
+// need to hang from. Returns how many nodes that is.
+export function reportTree(tree: SizeNode, limit = MAX_NODES): { tree: ReportNode; nodes: number } {
+  const cut = sizeCut(tree, limit);
+  admit(cut, tree.kb); // the root is the largest entry, so always makes it
+  const counter = { nodes: 0 };
+  return { tree: toReportNode(tree, cut, counter), nodes: counter.nodes };
+}
+
+// The preset command's sections, measured from this tree: preset locations,
+// the largest node_modules and the biggest folders of presetFolders(), as far
+// as they lie under the root.
+function presetSections(root: string, tree: SizeNode, opts: ReportOptions): ReportSection[] {
+  const forest = new Map([[root, tree]]);
+  const out: ReportSection[] = [];
+
+  const common = opts.presets
+    .filter((loc) => isWithin(root, loc.path))
+    .flatMap((loc) => {
+      const hit = findNode(forest, loc.path);
+      return hit ? [{ label: loc.label, path: loc.path, kb: hit.node.kb }] : [];
+    });
+  out.push({ label: 'Common Locations', entries: common.sort((a, b) => b.kb - a.kb) });
+
+  // Outermost node_modules only: nested ones are already inside their parent's size
+  const nodes: ReportSection['entries'] = [];
+  const visit = (p: string, n: SizeNode) => {
+    if (n.name === 'node_modules' && p !== root) {
+      nodes.push({ path: p, kb: n.kb });
+      return;
+    }
+    for (const c of n.children) visit(path.join(p, c.name), c);
+  };
+  visit(root, tree);
+  out.push({ label: `Largest node_modules (top ${opts.top})`, entries: nodes.sort((a, b) => b.kb - a.kb).slice(0, opts.top) });
+
+  const home = process.env.HOME;
+  for (const name of home ? presetFolders() : []) {
+    const dir = path.join(home!, name);
+    const hit = isWithin(root, dir) ? findNode(forest, dir) : null;
+    if (!hit) continue;
+    const entries = hit.node.children.map((c) => ({ path: path.join(dir, c.name), kb: c.kb }));
+    out.push({ label: `${name} (depth 1, top ${opts.top})`, entries: entries.slice(0, opts.top) });
+  }
+  return out;
+}
+
+// Walks `root` and gathers everything the page shows. Throws when the walk
+// is cancelled: a report of part of a tree would understate every size in it.
+export async function buildReport(root: string, walk: WalkSettings, opts: ReportOptions, onProgress?: (p: Progress) => void): Promise<ReportData> {
+  const started = Date.now();
+  const dir = await sizeDirectory(root, { ...walk, onProgress });
+  if (dir.partial) throw new Error('Scan cancelled; no report written');
+  const durationMs = Date.now() - started;
+  const mount = mountOf(root, await listMounts());
+  const vol = mount ? await statVolume(mount) : null;
+  const {tree, nodes} = reportTree(dir.tree);
+  tree.n = root;
+  return {
+    root,
+    generatedAt: new Date().toISOString(),
+    durationMs,
+    host: os.hostname(),
+    platform: `${currentPlatform()} ${os.release()}`,
+    excludes: opts.excludes,
+    crossMounts: opts.crossMounts,
+    kb: dir.kb,
+    files: dir.tree.fileCount ?? 0,
+    folders: dir.tree.dirCount ?? 0,
+    unreadable: dir.tree.unreadable ?? 0,
+    shownNodes: nodes,
+    disk: vol ? { mount: vol.mount, type: vol.type, totalBytes: vol.totalBytes, freeBytes: vol.freeBytes, usedPercent: vol.usedPercent } : undefined,
+    sections: presetSections(root, dir.tree, opts),
+    tree,
+  };
+}
+
+export async function writeReport(file: string, data: ReportData): Promise<void> {
+  await writeAtomic(file, renderReportHtml(data));
+}
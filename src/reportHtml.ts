@@ -0,0 +1,308 @@
+import {humanFromKB} from './utils.js';
+import type {ReportData} from './report.js';
+
+// The page for `report --html`: data, styles and script inline, no network.
+// Sizes are formatted in the browser with the same humanFromKB as the terminal.
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+// JSON inside <script>: "</script>" and "<!--" must not appear literally, and
+// line separators are escaped for older parsers.
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
+
+const STYLE = `
+:root { --bg: #fff; --fg: #1d1f21; --dim: #6a737d; --line: #e1e4e8; --panel: #f6f8fa; --accent: #0366d6; }
+@media (prefers-color-scheme: dark) {
+  :root { --bg: #0d1117; --fg: #c9d1d9; --dim: #8b949e; --line: #30363d; --panel: #161b22; --accent: #58a6ff; }
+}
+* { box-sizing: border-box; }
+body { margin: 0; padding: 24px; background: var(--bg); color: var(--fg); font: 14px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+h2 { font-size: 15px; margin: 28px 0 8px; }
+.dim { color: var(--dim); }
+.warn { color: #d29922; }
+.num { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+#meta { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 12px 0; }
+#meta dt { color: var(--dim); }
+#meta dd { margin: 0; word-break: break-all; }
+#sections { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 12px; }
+.card { background: var(--panel); border: 1px solid var(--line); border-radius: 6px; padding: 10px 12px; }
+.card h3 { font-size: 13px; margin: 0 0 6px; display: flex; justify-content: space-between; gap: 8px; }
+.card table { width: 100%; border-collapse: collapse; font-size: 12px; }
+.card td { padding: 1px 0; }
+.card td.path { color: var(--dim); overflow-wrap: anywhere; padding-left: 8px; }
+#crumbs { margin: 8px 0; overflow-wrap: anywhere; }
+#crumbs a { color: var(--accent); cursor: pointer; }
+.tabs button { font: inherit; background: var(--panel); color: var(--fg); border: 1px solid var(--line); padding: 3px 12px; cursor: pointer; }
+.tabs button.on { background: var(--accent); color: #fff; border-color: var(--accent); }
+#chart { position: relative; height: 520px; margin: 8px 0 16px; overflow: hidden; }
+.cell { position: absolute; overflow: hidden; border: 1px solid var(--bg); padding: 1px 4px; font-size: 12px; color: #111; cursor: pointer; white-space: nowrap; }
+.cell.sub { border-color: rgba(0, 0, 0, .15); font-size: 11px; padding: 0 3px; }
+.cell.file { background-image: repeating-linear-gradient(45deg, rgba(255, 255, 255, .25) 0 4px, transparent 4px 8px); }
+.cell.other { background-color: #9aa0a6 !important; }
+#chart svg { display: block; margin: 0 auto; }
+#chart path { stroke: var(--bg); stroke-width: 1; cursor: pointer; }
+#chart path:hover, .cell:hover { opacity: .85; }
+#listing { width: 100%; border-collapse: collapse; }
+#listing th { text-align: left; border-bottom: 2px solid var(--line); padding: 4px 8px; cursor: pointer; user-select: none; white-space: nowrap; }
+#listing th.num { text-align: right; }
+#listing td { border-bottom: 1px solid var(--line); padding: 3px 8px; }
+#listing tr.dir td:first-child { color: var(--accent); cursor: pointer; }
+.bar { display: inline-block; height: 8px; background: var(--accent); vertical-align: middle; margin-right: 6px; }
+`;
+
+// Plain ES2017, kept free of template literals so it can sit in this one.
+const SCRIPT = String.raw`
+var root = DATA.tree;
+(function link(n, parent) { n.p = parent; (n.c || []).forEach(function (c) { link(c, n); }); })(root, null);
+var current = root, view = 'treemap', sortKey = 's', sortDir = -1;
+
+function $(id) { return document.getElementById(id); }
+function el(tag, props, kids) {
+  var e = document.createElement(tag);
+  Object.keys(props || {}).forEach(function (k) { if (k === 'text') e.textContent = props[k]; else if (k === 'on') e.onclick = props[k]; else e.setAttribute(k, props[k]); });
+  (kids || []).forEach(function (k) { if (k != null) e.appendChild(typeof k === 'string' ? document.createTextNode(k) : k); });
+  return e;
+}
+function pathOf(n) {
+  var parts = [];
+  for (var x = n; x && x.p; x = x.p) parts.unshift(x.n);
+  return parts.length ? DATA.root.replace(/\/$/, '') + '/' + parts.join('/') : DATA.root;
+}
+function canZoom(n) { return !!(n && n.c && n.c.length); }
+function pct(part, whole) { return whole > 0 ? (part / whole * 100).toFixed(1) + '%' : ''; }
+function date(sec) { return sec ? new Date(sec * 1000).toISOString().slice(0, 10) : ''; }
+
+// Children plus one entry for the size not embedded as children
+function kids(n) {
+  var list = (n.c || []).slice();
+  var rest = n.s - list.reduce(function (a, c) { return a + c.s; }, 0);
+  if (rest > 0 && list.length) list.push({ n: '(smaller items)', s: rest, other: 1, p: n });
+  return list;
+}
+function hue(i) { return (i * 137.508 + 200) % 360; }
+function color(i, depth) { return 'hsl(' + hue(i) + ', 55%, ' + (62 + depth * 8) + '%)'; }
+function tip(n) { return (n.other ? n.n : pathOf(n)) + '\n' + humanFromKB(n.s) + (current.s ? ' · ' + pct(n.s, current.s) : ''); }
+
+// Squarified treemap layout (Bruls et al.): rows of cells kept close to square
+function worst(row, side) {
+  var sum = 0, max = 0, min = Infinity;
+  row.forEach(function (r) { sum += r.a; max = Math.max(max, r.a); min = Math.min(min, r.a); });
+  return Math.max(side * side * max / (sum * sum), (sum * sum) / (side * side * min));
+}
+function squarify(items, x, y, w, h) {
+  var out = [], total = items.reduce(function (a, i) { return a + i.s; }, 0);
+  if (!total || w <= 0 || h <= 0) return out;
+  var scale = w * h / total;
+  var rest = items.filter(function (i) { return i.s > 0; }).map(function (i) { return { item: i, a: i.s * scale }; });
+  while (rest.length) {
+    var side = Math.min(w, h), row = [rest[0]], best = worst(row, side), i = 1;
+    for (; i < rest.length; i++) {
+      var next = row.concat([rest[i]]), score = worst(next, side);
+      if (score > best) break;
+      row = next; best = score;
+    }
+    rest = rest.slice(row.length);
+    var sum = row.reduce(function (a, r) { return a + r.a; }, 0);
+    if (w >= h) {
+      var cw = sum / h, cy = y;
+      row.forEach(function (r) { var ch = r.a / cw; out.push({ item: r.item, x: x, y: cy, w: cw, h: ch }); cy += ch; });
+      x += cw; w -= cw;
+    } else {
+      var rh = sum / w, cx = x;
+      row.forEach(function (r) { var rw = r.a / rh; out.push({ item: r.item, x: cx, y: y, w: rw, h: rh }); cx += rw; });
+      y += rh; h -= rh;
+    }
+  }
+  return out;
+}
+function cell(item, box, cls, bg, onClick) {
+  var d = el('div', { class: cls + (item.file ? ' file' : '') + (item.other ? ' other' : ''), title: tip(item) });
+  d.style.left = box.x + 'px'; d.style.top = box.y + 'px';
+  d.style.width = Math.max(0, box.w) + 'px'; d.style.height = Math.max(0, box.h) + 'px';
+  d.style.backgroundColor = bg;
+  if (box.w > 40 && box.h > 14) d.textContent = item.n + ' ' + humanFromKB(item.s);
+  d.onclick = onClick;
+  return d;
+}
+function drawTreemap(box) {
+  var w = box.clientWidth, h = box.clientHeight;
+  squarify(kids(current), 0, 0, w, h).forEach(function (b, i) {
+    var zoom = function (ev) { ev.stopPropagation(); if (canZoom(b.item)) go(b.item); };
+    box.appendChild(cell(b.item, b, 'cell', color(i, 0), zoom));
+    // Second level inside cells that have room for it, below the label
+    if (canZoom(b.item) && b.w > 60 && b.h > 44) {
+      squarify(kids(b.item), b.x + 3, b.y + 18, b.w - 6, b.h - 21).forEach(function (s) {
+        box.appendChild(cell(s.item, s, 'cell sub', color(i, 1), zoom));
+      });
+    }
+  });
+}
+
+function arc(a0, a1, r0, r1) {
+  a1 = Math.min(a1, a0 + 2 * Math.PI - 1e-4);
+  var large = a1 - a0 > Math.PI ? 1 : 0;
+  r0 = r0.toFixed(2); r1 = r1.toFixed(2);
+  function p(a, r) { return (Math.sin(a) * r).toFixed(2) + ',' + (-Math.cos(a) * r).toFixed(2); }
+  return 'M' + p(a0, r1) + 'A' + r1 + ',' + r1 + ' 0 ' + large + ' 1 ' + p(a1, r1) + 'L' + p(a1, r0) + 'A' + r0 + ',' + r0 + ' 0 ' + large + ' 0 ' + p(a0, r0) + 'Z';
+}
+function drawSunburst(box) {
+  var NS = 'http://www.w3.org/2000/svg', size = Math.min(box.clientWidth, box.clientHeight), R = size / 2 - 4;
+  var rings = 4, inner = R * 0.22, ring = (R - inner) / rings;
+  var svg = document.createElementNS(NS, 'svg');
+  svg.setAttribute('width', size); svg.setAttribute('height', size);
+  svg.setAttribute('viewBox', (-size / 2) + ' ' + (-size / 2) + ' ' + size + ' ' + size);
+  function ringOf(n, a0, a1, depth, i) {
+    if (depth > rings || !current.s) return;
+    var a = a0;
+    kids(n).forEach(function (k, j) {
+      var span = (a1 - a0) * k.s / (n.s || 1), top = depth === 1 ? j : i;
+      if (span > 0.004) {
+        var path = document.createElementNS(NS, 'path');
+        path.setAttribute('d', arc(a, a + span, inner + (depth - 1) * ring, inner + depth * ring));
+        path.setAttribute('fill', k.other ? '#9aa0a6' : color(top, depth - 1));
+        var t = document.createElementNS(NS, 'title'); t.textContent = tip(k); path.appendChild(t);
+        path.onclick = function () { if (canZoom(k)) go(k); };
+        svg.appendChild(path);
+        if (!k.other) ringOf(k, a, a + span, depth + 1, top);
+      }
+      a += span;
+    });
+  }
+  ringOf(current, 0, 2 * Math.PI, 1, 0);
+  var hub = document.createElementNS(NS, 'circle');
+  hub.setAttribute('r', inner - 2); hub.setAttribute('fill', 'var(--panel)'); hub.style.cursor = current.p ? 'pointer' : 'default';
+  hub.onclick = function () { if (current.p) go(current.p); };
+  var label = document.createElementNS(NS, 'text');
+  label.setAttribute('text-anchor', 'middle'); label.setAttribute('dy', '0.35em'); label.setAttribute('fill', 'currentColor');
+  label.textContent = humanFromKB(current.s);
+  label.style.pointerEvents = 'none';
+  svg.appendChild(hub); svg.appendChild(label);
+  box.appendChild(svg);
+}
+
+function drawCrumbs() {
+  var chain = [];
+  for (var x = current; x; x = x.p) chain.unshift(x);
+  var nav = $('crumbs'); nav.textContent = '';
+  chain.forEach(function (n, i) {
+    if (i) nav.appendChild(document.createTextNode(' / '));
+    var name = i ? n.n : DATA.root;
+    nav.appendChild(n === current ? el('b', { text: name }) : el('a', { text: name, on: function () { go(n); } }));
+  });
+  nav.appendChild(el('span', { class: 'dim', text: '  ' + humanFromKB(current.s) + (current.p ? ' · click the centre or a parent to go up' : '') }));
+}
+
+var COLUMNS = [['n', 'Name'], ['s', 'Size'], ['pct', 'Share'], ['fc', 'Files'], ['dc', 'Folders'], ['m', 'Modified']];
+function drawTable() {
+  var head = el('tr', {}, COLUMNS.map(function (c) {
+    var arrow = sortKey === c[0] ? (sortDir < 0 ? ' ▼' : ' ▲') : '';
+    return el('th', { class: c[0] === 'n' ? '' : 'num', text: c[1] + arrow, on: function () {
+      sortDir = sortKey === c[0] ? -sortDir : (c[0] === 'n' ? 1 : -1); sortKey = c[0]; drawTable();
+    } });
+  }));
+  var key = sortKey === 'pct' ? 's' : sortKey;
+  var rows = kids(current).sort(function (a, b) {
+    if (a.other !== b.other) return a.other ? 1 : -1;
+    var x = a[key] == null ? -1 : a[key], y = b[key] == null ? -1 : b[key];
+    return (typeof x === 'string' ? x.localeCompare(y) : x - y) * sortDir;
+  });
+  var max = rows.reduce(function (m, r) { return Math.max(m, r.s); }, 0);
+  var body = rows.map(function (r) {
+    var name = r.n + (r.file || r.other ? '' : '/');
+    var share = el('td', { class: 'num' }, [el('span', { class: 'bar', style: 'width:' + Math.round(60 * r.s / (max || 1)) + 'px' }), pct(r.s, current.s)]);
+    return el('tr', { class: canZoom(r) ? 'dir' : '', on: function () { if (canZoom(r)) go(r); } }, [
+      el('td', { text: name, title: r.other ? '' : pathOf(r) }, r.u ? [el('span', { class: 'warn', text: '  ⚠ ' + r.u + ' unreadable' })] : []),
+      el('td', { class: 'num', text: humanFromKB(r.s) }), share,
+      el('td', { class: 'num', text: r.fc != null ? String(r.fc) : '' }),
+      el('td', { class: 'num', text: r.dc != null ? String(r.dc) : '' }),
+      el('td', { class: 'num', text: date(r.m) }),
+    ]);
+  });
+  var table = $('listing'); table.textContent = '';
+  table.appendChild(el('thead', {}, [head]));
+  table.appendChild(el('tbody', {}, body.length ? body : [el('tr', {}, [el('td', { class: 'dim', text: '(no folders or files large enough to embed)' })])]));
+}
+
+function draw() {
+  drawCrumbs();
+  var box = $('chart'); box.textContent = '';
+  if (view === 'treemap') drawTreemap(box); else drawSunburst(box);
+  drawTable();
+}
+function go(n) { current = n; draw(); }
+
+function drawMeta() {
+  var d = DATA, rows = [
+    ['Path', d.root],
+    ['Total', humanFromKB(d.kb) + ' in ' + d.files + ' files, ' + d.folders + ' folders'],
+    ['Scanned', d.generatedAt.replace('T', ' ').slice(0, 19) + ' UTC on ' + d.host + ' (' + d.platform + '), took ' + (d.durationMs / 1000).toFixed(1) + 's'],
+    ['Excludes', d.excludes.length ? d.excludes.join(', ') : 'none'],
+    ['Mounts', d.crossMounts ? 'crossed into other filesystems' : 'stayed on one filesystem'],
+  ];
+  if (d.disk) rows.push(['Disk', humanFromKB(d.disk.freeBytes / 1024) + ' free of ' + humanFromKB(d.disk.totalBytes / 1024) + ' (' + d.disk.usedPercent + '% used) on ' + d.disk.mount + ' (' + d.disk.type + ')']);
+  if (d.unreadable) rows.push(['Unreadable', d.unreadable + ' paths could not be read; sizes are lower bounds']);
+  rows.push(['Detail', d.shownNodes + ' largest folders and files embedded; smaller ones are counted in their parent']);
+  var dl = $('meta');
+  rows.forEach(function (r) { dl.appendChild(el('dt', { text: r[0] })); dl.appendChild(el('dd', { class: r[0] === 'Unreadable' ? 'warn' : '', text: r[1] })); });
+}
+function drawSections() {
+  var box = $('sections');
+  DATA.sections.forEach(function (s) {
+    var total = s.entries.reduce(function (a, e) { return a + e.kb; }, 0);
+    var rows = s.entries.map(function (e) {
+      return el('tr', {}, [el('td', { class: 'num', text: humanFromKB(e.kb) }), el('td', { class: 'path', text: e.label ? e.label + ' · ' + e.path : e.path })]);
+    });
+    box.appendChild(el('div', { class: 'card' }, [
+      el('h3', {}, [el('span', { text: s.label }), el('span', { class: 'num', text: humanFromKB(total) })]),
+      rows.length ? el('table', {}, rows) : el('div', { class: 'dim', text: '(none under this path)' }),
+    ]));
+  });
+}
+
+document.querySelectorAll('.tabs button').forEach(function (b) {
+  b.onclick = function () {
+    view = b.getAttribute('data-view');
+    document.querySelectorAll('.tabs button').forEach(function (o) { o.className = o === b ? 'on' : ''; });
+    draw();
+  };
+});
+window.addEventListener('resize', function () { draw(); });
+drawMeta();
+drawSections();
+draw();
+`;
+
+export function renderReportHtml(data: ReportData): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Disk usage of ${escapeHtml(data.root)} · ${escapeHtml(data.generatedAt.slice(0, 10))}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Disk usage of ${escapeHtml(data.root)}</h1>
+<div class="dim">storage-scan report</div>
+<dl id="meta"></dl>
+<h2>Preset locations</h2>
+<div id="sections"></div>
+<h2>Size map</h2>
+<div class="tabs"><button data-view="treemap" class="on">Treemap</button><button data-view="sunburst">Sunburst</button></div>
+<div id="crumbs"></div>
+<div id="chart"></div>
+<table id="listing"></table>
+<script>
+var DATA = ${scriptJson(data)};
+${humanFromKB.toString()}
+${SCRIPT}
+</script>
+</body>
+</html>
+`;
+}
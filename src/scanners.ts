@@ -1,26 +1,27 @@
 import fs from 'node:fs';
 import path from 'node:path';
+import crypto from 'node:crypto';
 import {spawn} from 'node:child_process';
-import {applyExcludes, safeReaddir, SizeEntry} from './utils.js';
+import {safeReaddir, SizeEntry} from './utils.js';
+import {fileKb, listPaths, sizeDirectory, sizePaths, WalkSettings} from './walker.js';
+import {loadExcludes} from './ignore.js';
+import {Platform, presetFolders} from './platform.js';
+import {graftTree} from './tree.js';
+import {loadCacheFromDisk, saveCacheToDisk, saveSnapshot} from './persist.js';
 
 export type Progress = { phase: string; processed: number; total: number };
 
-export function runDuKb(target: string): Promise<number> {
-  return new Promise((resolve) => {
-    const ps = spawn('du', ['-skx', target]);
-    let out = '';
-    ps.stdout.on('data', (d) => (out += String(d)));
-    ps.on('close', () => {
-      const kb = parseInt(out.split(/\s+/)[0] || '0', 10);
-      resolve(Number.isFinite(kb) ? kb : 0);
-    });
-    ps.on('error', () => resolve(0));
-  });
-}
+// Identical files: every path holds the same bytes. Keeping one copy frees wastedKb.
+export type DupeSet = { kb: number; bytes: number; hash: string; paths: string[]; wastedKb: number };
 
-export function listDirsViaFind(dir: string): Promise<string[]> {
+export type PresetSection = { label: string; entries: SizeEntry[] };
+
+const PARTIAL_HASH_BYTES = 64 * 1024;
+
+// Aborting kills `find`; the folders it printed so far are returned.
+export function listDirsViaFind(dir: string, signal?: AbortSignal): Promise<string[]> {
   return new Promise((resolve) => {
-    const ps = spawn('find', [dir, '-mindepth', '1', '-maxdepth', '1', '-type', 'd', '-print0']);
+    const ps = spawn('find', [dir, '-mindepth', '1', '-maxdepth', '1', '-type', 'd', '-print0'], {signal});
     const out: string[] = [];
     let buf = Buffer.alloc(0);
     ps.stdout.on('data', (d) => {
@@ -32,131 +33,214 @@ export function listDirsViaFind(dir: string): Promise<string[]> {
       }
     });
     ps.on('close', () => resolve(out));
-    ps.on('error', () => resolve([]));
+    ps.on('error', () => resolve(signal?.aborted ? out : []));
   });
 }
 
-export async function scanDirsDepth1(startPath: string, excludes: string[], debug = false, onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
-  let dirs = safeReaddir(startPath);
+export async function scanDirsDepth1(startPath: string, walk: WalkSettings = {}, debug = false, onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
+  let denied: NodeJS.ErrnoException | undefined;
+  let dirs = safeReaddir(startPath, (e) => { denied = e; });
   if (dirs.length === 0) {
     if (debug) console.error(`[debug] readdir returned 0 entries, falling back to find for ${startPath}`);
-    dirs = await listDirsViaFind(startPath);
-  }
-  dirs = dirs.filter((p) => !applyExcludes(p, excludes));
-  const results: SizeEntry[] = [];
-  const total = dirs.length;
-  onProgress?.({ phase: 'measuring', processed: 0, total });
-  for (const d of dirs) {
-    const kb = await runDuKb(d);
-    results.push({ kb, path: d });
-    onProgress?.({ phase: 'measuring', processed: results.length, total });
+    dirs = await listDirsViaFind(startPath, walk.signal);
   }
+  // An empty listing would read as "nothing here"
+  if (dirs.length === 0 && denied) throw new Error(`Cannot read ${startPath}: ${denied.code === 'EACCES' || denied.code === 'EPERM' ? 'permission denied' : denied.message}`);
+  dirs = dirs.filter((p) => !walk.exclude?.(p, true));
+  return sizePaths(dirs, { ...walk, onProgress });
+}
+
+export async function scanNodeModules(startPath: string, walk: WalkSettings = {}, onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
+  const found = await listPaths(startPath, (p, st) => st.isDirectory() && path.basename(p) === 'node_modules', walk);
+  return sizePaths(found.map((f) => f.path), { ...walk, onProgress });
+}
+
+// Regular files larger than `minSizeMb`, matching `find -size +NM`.
+function largerThan(minSizeMb: number) {
+  const minBytes = minSizeMb * 1024 * 1024;
+  return (_p: string, st: fs.Stats) => st.isFile() && st.size > minBytes;
+}
+
+export async function scanLargeFiles(startPath: string, minSizeMb: number, walk: WalkSettings = {}, onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
+  const large = largerThan(minSizeMb);
+  const found = await listPaths(startPath, (p, st) => {
+    if (!large(p, st)) return false;
+    walk.onMeasured?.({ kb: fileKb(st), path: p, bytes: st.size });
+    return true;
+  }, walk);
+  const results: SizeEntry[] = found.map(({path: f, stats}) => ({ kb: fileKb(stats), path: f, bytes: stats.size }));
+  onProgress?.({ phase: 'measuring', processed: results.length, total: results.length });
   results.sort((a, b) => b.kb - a.kb);
   return results;
 }
 
-export async function scanNodeModules(startPath: string, excludes: string[], onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
-  const results: SizeEntry[] = [];
-  await new Promise<void>((resolve) => {
-    const ps = spawn('find', [startPath, '-type', 'd', '-name', 'node_modules', '-prune', '-print0']);
-    const files: string[] = [];
-    let buf = Buffer.alloc(0);
-    ps.stdout.on('data', (d) => {
-      buf = Buffer.concat([buf, d]);
-      let idx;
-      while ((idx = buf.indexOf(0)) !== -1) {
-        const p = buf.subarray(0, idx).toString();
-        files.push(p);
-        buf = buf.subarray(idx + 1);
-      }
-    });
-    ps.on('close', async () => {
-      const total = files.length;
-      onProgress?.({ phase: 'measuring', processed: 0, total });
-      for (const p of files) {
-        if (applyExcludes(p, excludes)) continue;
-        const kb = await runDuKb(p);
-        results.push({ kb, path: p });
-        onProgress?.({ phase: 'measuring', processed: results.length, total });
-      }
-      results.sort((a, b) => b.kb - a.kb);
-      resolve();
+async function hashFile(p: string, limit?: number, signal?: AbortSignal): Promise<string | null> {
+  if (signal?.aborted) return null;
+  return new Promise((resolve) => {
+    const h = crypto.createHash('sha256');
+    const stream = fs.createReadStream(p, limit ? { start: 0, end: limit - 1 } : {});
+    const stop = () => stream.destroy();
+    signal?.addEventListener('abort', stop, { once: true });
+    stream.on('data', (d) => h.update(d));
+    stream.on('end', () => resolve(h.digest('hex')));
+    stream.on('error', () => resolve(null));
+    stream.on('close', () => {
+      signal?.removeEventListener('abort', stop);
+      resolve(null); // no-op after 'end'; an aborted read never got there
     });
-    ps.on('error', () => resolve());
   });
-  return results;
 }
 
-export async function scanLargeFiles(startPath: string, minSizeMb: number, excludes: string[], onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
-  const results: SizeEntry[] = [];
-  await new Promise<void>((resolve) => {
-    const ps = spawn('find', [startPath, '-type', 'f', '-size', `+${minSizeMb}M`, '-print0']);
-    const files: string[] = [];
-    let buf = Buffer.alloc(0);
-    ps.stdout.on('data', (d) => {
-      buf = Buffer.concat([buf, d]);
-      let idx;
-      while ((idx = buf.indexOf(0)) !== -1) {
-        const p = buf.subarray(0, idx).toString();
-        files.push(p);
-        buf = buf.subarray(idx + 1);
-      }
-    });
-    ps.on('close', async () => {
-      const total = files.length;
-      onProgress?.({ phase: 'measuring', processed: 0, total });
-      for (const f of files) {
-        if (applyExcludes(f, excludes)) continue;
-        try {
-          const st = fs.statSync(f);
-          const kb = Math.floor(st.size / 1024);
-          results.push({ kb, path: f });
-          onProgress?.({ phase: 'measuring', processed: results.length, total });
-        } catch {}
-      }
-      results.sort((a, b) => b.kb - a.kb);
-      resolve();
-    });
-    ps.on('error', () => resolve());
+// Splits each group by a key; keys that come back null (unreadable) are dropped
+// and only buckets that still hold two or more paths survive.
+async function refineGroups(groups: string[][], phase: string, keyOf: (p: string) => Promise<string | null>, onProgress?: (p: Progress) => void, signal?: AbortSignal): Promise<Array<{key: string; paths: string[]}>> {
+  const total = groups.reduce((n, g) => n + g.length, 0);
+  let processed = 0;
+  onProgress?.({ phase, processed, total });
+  const out: Array<{key: string; paths: string[]}> = [];
+  for (const group of groups) {
+    if (signal?.aborted) break;
+    const buckets = new Map<string, string[]>();
+    for (const p of group) {
+      const key = await keyOf(p);
+      onProgress?.({ phase, processed: ++processed, total });
+      if (key == null) continue;
+      buckets.set(key, [...(buckets.get(key) || []), p]);
+    }
+    for (const [key, paths] of buckets) if (paths.length > 1) out.push({ key, paths });
+  }
+  return out;
+}
+
+// Same listing as scanLargeFiles, then narrowed by size, a hash of the first
+// 64KB and finally a full hash. Hard links to one inode are not duplicates.
+export async function scanDuplicates(startPath: string, minSizeMb: number, walk: WalkSettings = {}, onProgress?: (p: Progress) => void): Promise<DupeSet[]> {
+  const files = await listPaths(startPath, largerThan(minSizeMb), walk);
+  const bySize = new Map<number, string[]>();
+  const sizeOf = new Map<string, fs.Stats>();
+  const seenInodes = new Set<string>();
+  onProgress?.({ phase: 'sizing', processed: 0, total: files.length });
+  files.forEach(({path: f, stats: st}, i) => {
+    const inode = `${st.dev}:${st.ino}`;
+    if (st.size > 0 && !seenInodes.has(inode)) {
+      seenInodes.add(inode);
+      bySize.set(st.size, [...(bySize.get(st.size) || []), f]);
+      sizeOf.set(f, st);
+    }
+    onProgress?.({ phase: 'sizing', processed: i + 1, total: files.length });
   });
-  return results;
+  const sized = [...bySize.values()].filter((g) => g.length > 1);
+  // Aborting keeps the sets confirmed so far; groups that weren't fully hashed are dropped
+  const partial = await refineGroups(sized, 'partial hash', (p) => hashFile(p, PARTIAL_HASH_BYTES, walk.signal), onProgress, walk.signal);
+  const full = await refineGroups(partial.map((g) => g.paths), 'full hash', (p) => hashFile(p, undefined, walk.signal), onProgress, walk.signal);
+
+  const sets: DupeSet[] = full.map(({key, paths}) => {
+    const st = sizeOf.get(paths[0]!);
+    const kb = st ? fileKb(st) : 0;
+    return { kb, bytes: st?.size ?? 0, hash: key, paths: paths.sort(), wastedKb: kb * (paths.length - 1) };
+  });
+  sets.sort((a, b) => b.wastedKb - a.wastedKb);
+  return sets;
 }
 
-export const presetLocations: Array<{label: string; path: string}> = [
+// Locations without `platforms` exist on both systems.
+export type PresetLocation = { label: string; path: string; platforms?: Platform[] };
+
+const MAC: Platform[] = ['darwin'];
+const LINUX: Platform[] = ['linux'];
+
+export const presetLocations: PresetLocation[] = [
   { label: 'Downloads', path: `${process.env.HOME}/Downloads` },
-  { label: 'Movies', path: `${process.env.HOME}/Movies` },
+  { label: 'Movies', path: `${process.env.HOME}/Movies`, platforms: MAC },
+  { label: 'Videos', path: `${process.env.HOME}/Videos`, platforms: LINUX },
   { label: 'Pictures', path: `${process.env.HOME}/Pictures` },
   { label: 'Music', path: `${process.env.HOME}/Music` },
-  { label: 'User Caches', path: `${process.env.HOME}/Library/Caches` },
-  { label: 'System Caches', path: `/Library/Caches` },
-  { label: 'Xcode DerivedData', path: `${process.env.HOME}/Library/Developer/Xcode/DerivedData` },
-  { label: 'Xcode Archives', path: `${process.env.HOME}/Library/Developer/Xcode/Archives` },
-  { label: 'iOS Simulators', path: `${process.env.HOME}/Library/Developer/CoreSimulator/Devices` },
-  { label: 'Android SDK', path: `${process.env.HOME}/Library/Android/sdk` },
+  { label: 'User Caches', path: `${process.env.HOME}/Library/Caches`, platforms: MAC },
+  { label: 'User Caches', path: `${process.env.HOME}/.cache`, platforms: LINUX },
+  { label: 'System Caches', path: `/Library/Caches`, platforms: MAC },
+  { label: 'Trash', path: `${process.env.HOME}/.local/share/Trash`, platforms: LINUX },
+  { label: 'Xcode DerivedData', path: `${process.env.HOME}/Library/Developer/Xcode/DerivedData`, platforms: MAC },
+  { label: 'Xcode Archives', path: `${process.env.HOME}/Library/Developer/Xcode/Archives`, platforms: MAC },
+  { label: 'iOS Simulators', path: `${process.env.HOME}/Library/Developer/CoreSimulator/Devices`, platforms: MAC },
+  { label: 'Android SDK', path: `${process.env.HOME}/Library/Android/sdk`, platforms: MAC },
+  { label: 'Android SDK', path: `${process.env.HOME}/Android/Sdk`, platforms: LINUX },
   { label: 'Android User Dir', path: `${process.env.HOME}/.android` },
   { label: 'Gradle cache', path: `${process.env.HOME}/.gradle` },
+  { label: 'Maven repository', path: `${process.env.HOME}/.m2` },
+  { label: 'Cargo', path: `${process.env.HOME}/.cargo` },
+  { label: 'pip cache', path: `${process.env.HOME}/Library/Caches/pip`, platforms: MAC },
+  { label: 'pip cache', path: `${process.env.HOME}/.cache/pip`, platforms: LINUX },
+  { label: 'Conda (user)', path: `${process.env.HOME}/.conda` },
+  { label: 'Miniconda', path: `${process.env.HOME}/miniconda3` },
+  { label: 'Anaconda', path: `${process.env.HOME}/anaconda3` },
   { label: 'npm cache', path: `${process.env.HOME}/.npm` },
-  { label: 'npm cache (Library)', path: `${process.env.HOME}/Library/Caches/npm` },
-  { label: 'Yarn cache', path: `${process.env.HOME}/Library/Caches/Yarn` },
-  { label: 'pnpm store (Library)', path: `${process.env.HOME}/Library/pnpm/store` },
+  { label: 'npm cache (Library)', path: `${process.env.HOME}/Library/Caches/npm`, platforms: MAC },
+  { label: 'Yarn cache', path: `${process.env.HOME}/Library/Caches/Yarn`, platforms: MAC },
+  { label: 'Yarn cache', path: `${process.env.HOME}/.cache/yarn`, platforms: LINUX },
+  { label: 'pnpm store (Library)', path: `${process.env.HOME}/Library/pnpm/store`, platforms: MAC },
+  { label: 'pnpm store', path: `${process.env.HOME}/.local/share/pnpm/store`, platforms: LINUX },
   { label: 'pnpm store (home)', path: `${process.env.HOME}/.pnpm-store` },
-  { label: 'Homebrew (user)', path: `${process.env.HOME}/Library/Caches/Homebrew` },
-  { label: 'Homebrew (system)', path: `/Library/Caches/Homebrew` },
-  { label: 'Docker.raw', path: `${process.env.HOME}/Library/Containers/com.docker.docker/Data/vms/0/data/Docker.raw` },
+  { label: 'Homebrew (user)', path: `${process.env.HOME}/Library/Caches/Homebrew`, platforms: MAC },
+  { label: 'Homebrew (system)', path: `/Library/Caches/Homebrew`, platforms: MAC },
+  { label: 'Flatpak (user)', path: `${process.env.HOME}/.local/share/flatpak`, platforms: LINUX },
+  { label: 'Flatpak (system)', path: `/var/lib/flatpak`, platforms: LINUX },
+  { label: 'Snap (user data)', path: `${process.env.HOME}/snap`, platforms: LINUX },
+  { label: 'Snap packages', path: `/var/lib/snapd/snaps`, platforms: LINUX },
+  { label: 'Docker.raw', path: `${process.env.HOME}/Library/Containers/com.docker.docker/Data/vms/0/data/Docker.raw`, platforms: MAC },
+  { label: 'Docker data', path: `/var/lib/docker`, platforms: LINUX },
   { label: 'Docker config', path: `${process.env.HOME}/.docker` },
-  { label: 'Adobe Media Cache Files', path: `${process.env.HOME}/Library/Application Support/Adobe/Common/Media Cache Files` },
-  { label: 'Adobe Media Cache', path: `${process.env.HOME}/Library/Application Support/Adobe/Common/Media Cache` },
-  { label: 'Adobe Caches', path: `${process.env.HOME}/Library/Caches/Adobe` },
-  { label: 'DaVinci CacheClip', path: `${process.env.HOME}/Movies/DaVinci Resolve/CacheClip` },
-  { label: 'DaVinci ProxyMedia', path: `${process.env.HOME}/Movies/DaVinci Resolve/ProxyMedia` }
+  { label: 'journald logs', path: `/var/log/journal`, platforms: LINUX },
+  { label: 'Adobe Media Cache Files', path: `${process.env.HOME}/Library/Application Support/Adobe/Common/Media Cache Files`, platforms: MAC },
+  { label: 'Adobe Media Cache', path: `${process.env.HOME}/Library/Application Support/Adobe/Common/Media Cache`, platforms: MAC },
+  { label: 'Adobe Caches', path: `${process.env.HOME}/Library/Caches/Adobe`, platforms: MAC },
+  { label: 'DaVinci CacheClip', path: `${process.env.HOME}/Movies/DaVinci Resolve/CacheClip`, platforms: MAC },
+  { label: 'DaVinci ProxyMedia', path: `${process.env.HOME}/Movies/DaVinci Resolve/ProxyMedia`, platforms: MAC }
 ];
 
-export async function sizeIfExists(p: string): Promise<SizeEntry | null> {
-  try {
-    fs.accessSync(p);
-    const kb = await runDuKb(p);
-    return { kb, path: p };
-  } catch {
-    return null;
+// Null when `p` does not exist; unreadable locations come back with status 'error'.
+export async function sizeIfExists(p: string, walk: WalkSettings = {}): Promise<SizeEntry | null> {
+  return (await sizePaths([p], walk))[0] ?? null;
+}
+
+// `dirs --snapshot`: one walk yields both the listing and the tree, which is
+// grafted into the cache and frozen as a snapshot.
+export async function scanDirsSnapshot(startPath: string, walk: WalkSettings = {}, onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
+  const sized = await sizeDirectory(startPath, { ...walk, onProgress });
+  if (sized.partial) return sized.children; // never cache or freeze an incomplete tree
+  const forest = graftTree(await loadCacheFromDisk(), startPath, sized.tree, Date.now());
+  await saveCacheToDisk(forest);
+  await saveSnapshot(forest);
+  return sized.children;
+}
+
+// Known heavy locations, the largest node_modules in $HOME and the biggest
+// folders of the platform's presetFolders(). Progress phases carry the section name.
+// `excludes` are config patterns, combined with each root's ignore files.
+// Aborting returns the sections measured so far.
+export async function scanPreset(locations: PresetLocation[], top: number, excludes: string[] = [], concurrency?: number, onProgress?: (p: Progress) => void, signal?: AbortSignal): Promise<PresetSection[]> {
+  const home = process.env.HOME;
+  const tagged = (section: string) => onProgress && ((p: Progress) => onProgress({ ...p, phase: `${section}: ${p.phase}` }));
+  const walkFor = async (root: string): Promise<WalkSettings> => ({ exclude: await loadExcludes(root, excludes), concurrency, signal });
+  const out: PresetSection[] = [];
+
+  const sized: SizeEntry[] = [];
+  for (const [i, loc] of locations.entries()) {
+    if (signal?.aborted) break;
+    onProgress?.({ phase: 'Common Locations: measuring', processed: i, total: locations.length });
+    const v = await sizeIfExists(loc.path, await walkFor(loc.path));
+    if (v) sized.push({ ...v, label: loc.label });
+  }
+  sized.sort((a, b) => b.kb - a.kb);
+  out.push({ label: 'Common Locations', entries: sized });
+
+  const nodes = home ? (await scanNodeModules(home, await walkFor(home), tagged('node_modules'))).slice(0, top) : [];
+  out.push({ label: `Largest node_modules (home) (top ${top})`, entries: nodes });
+
+  for (const name of presetFolders()) {
+    if (signal?.aborted) break;
+    const dir = home ? path.join(home, name) : '';
+    if (!dir || !fs.existsSync(dir)) continue;
+    out.push({ label: `${name} (depth 1, top ${top})`, entries: (await scanDirsDepth1(dir, await walkFor(dir), false, tagged(name))).slice(0, top) });
   }
+  return out;
 }
@@ -0,0 +1,285 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {userCacheDir} from './persist.js';
+import {currentPlatform} from './platform.js';
+import {freeBytes} from './budgets.js';
+import {sizePathKb} from './walker.js';
+import {humanFromKB} from './utils.js';
+
+// Deletes are reversible: items go to the platform trash (freedesktop Trash on
+// Linux, ~/.Trash on macOS) or to a staging folder purged after N days. Every
+// move is recorded in an append-only journal so it can be undone later.
+
+export type DeleteMode = 'trash' | 'staging';
+
+export type TrashRecord = {
+  id: string;
+  original: string;
+  stored: string; // where the item lives now
+  method: DeleteMode;
+  at: number;
+  infoFile?: string; // freedesktop .trashinfo written alongside
+  batch?: string; // items deleted together are undone together
+};
+
+// undoLast: what came back, and every item of the batch that could not.
+export type UndoResult = { restored: TrashRecord[]; failed: Array<{ record: TrashRecord; error: string }> };
+
+type JournalLine =
+  | ({ action: 'trash' } & TrashRecord)
+  | { action: 'restore' | 'purge' | 'gone'; id: string; at: number }; // gone: the stored item was removed behind our back
+
+const DEFAULT_STAGING_DAYS = 7;
+
+export function deleteMode(): DeleteMode {
+  return process.env.STORAGE_CLEANUP_DELETE_MODE === 'staging' ? 'staging' : 'trash';
+}
+
+export function stagingDays(): number {
+  const n = parseInt(process.env.STORAGE_CLEANUP_STAGING_DAYS || '', 10);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_STAGING_DAYS;
+}
+
+function journalPath(): string {
+  return path.join(userCacheDir(), 'journal.ndjson');
+}
+
+function stagingDir(): string {
+  return path.join(userCacheDir(), 'staging');
+}
+
+function linuxTrashDir(): string {
+  const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+  return path.join(dataHome, 'Trash');
+}
+
+// dir: the trash folder (holding files/ and info/); topdir: the mount point it
+// belongs to, for a trash on another volume than home (.trashinfo paths are
+// then relative to it).
+type LinuxTrash = { dir: string; topdir?: string };
+
+async function deviceOf(p: string): Promise<number | null> {
+  try { return (await fs.promises.lstat(p)).dev; } catch { return null; }
+}
+
+// The home trash may not exist yet: use its nearest existing ancestor.
+async function existingDeviceOf(p: string): Promise<number | null> {
+  for (let dir = p; ; dir = path.dirname(dir)) {
+    const dev = await deviceOf(dir);
+    if (dev != null || path.dirname(dir) === dir) return dev;
+  }
+}
+
+// The mount point holding `p`: its topmost ancestor on the same device.
+async function topdirOf(p: string, dev: number): Promise<string> {
+  let dir = path.dirname(p);
+  while (path.dirname(dir) !== dir && (await deviceOf(path.dirname(dir))) === dev) dir = path.dirname(dir);
+  return dir;
+}
+
+// freedesktop $topdir/.Trash-$uid, created on first use. Null when it cannot
+// be created (read-only, no permission) or is not a folder of ours.
+async function topdirTrash(topdir: string): Promise<string | null> {
+  const uid = process.getuid?.();
+  if (uid == null) return null;
+  const dir = path.join(topdir, `.Trash-${uid}`);
+  try {
+    await fs.promises.mkdir(dir, {mode: 0o700});
+  } catch (err: any) {
+    if (err?.code !== 'EEXIST') return null;
+  }
+  const st = await fs.promises.lstat(dir).catch(() => null);
+  return st?.isDirectory() && st.uid === uid ? dir : null;
+}
+
+// Items on another volume than home go to that volume's own trash, so nothing
+// is copied between disks; the home trash is the fallback.
+async function linuxTrashFor(original: string): Promise<LinuxTrash> {
+  const home = linuxTrashDir();
+  const dev = await deviceOf(original);
+  if (dev == null || dev === (await existingDeviceOf(home))) return { dir: home };
+  const topdir = await topdirOf(original, dev);
+  const dir = await topdirTrash(topdir);
+  return dir ? { dir, topdir } : { dir: home };
+}
+
+async function appendJournal(line: JournalLine): Promise<void> {
+  await fs.promises.mkdir(userCacheDir(), {recursive: true});
+  await fs.promises.appendFile(journalPath(), JSON.stringify(line) + '\n');
+}
+
+async function readJournal(): Promise<JournalLine[]> {
+  let raw = '';
+  try { raw = await fs.promises.readFile(journalPath(), 'utf8'); } catch { return []; }
+  const out: JournalLine[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try { out.push(JSON.parse(line)); } catch {}
+  }
+  return out;
+}
+
+// Trashed items that have been neither restored, purged nor found gone, oldest first.
+export async function listTrashed(): Promise<TrashRecord[]> {
+  const live = new Map<string, TrashRecord>();
+  for (const line of await readJournal()) {
+    if (line.action === 'trash') {
+      const {action, ...rec} = line;
+      live.set(rec.id, rec);
+    } else {
+      live.delete(line.id);
+    }
+  }
+  return [...live.values()];
+}
+
+async function exists(p: string): Promise<boolean> {
+  try { await fs.promises.lstat(p); return true; } catch { return false; }
+}
+
+async function uniqueName(dir: string, base: string, taken: (name: string) => Promise<boolean>): Promise<string> {
+  let name = base;
+  for (let i = 2; await taken(name); i++) name = `${base} ${i}`;
+  return path.join(dir, name);
+}
+
+async function ensureRoom(item: string, dir: string): Promise<void> {
+  const needed = (await sizePathKb(item)) * 1024;
+  const free = await freeBytes(dir);
+  if (needed > free) throw new Error(`Not enough space to move ${item} to ${dir}: needs ${humanFromKB(needed / 1024)}, ${humanFromKB(free / 1024)} free`);
+}
+
+// rename() cannot cross devices; fall back to copy + remove in that case, once
+// the copy is known to fit. A failed copy is removed again, the source kept.
+// `arrived` runs as soon as the item is complete at `to` (journaling it), so a
+// source that then cannot be removed entirely still leaves a recorded move.
+async function moveAcross(from: string, to: string, arrived: () => Promise<void>): Promise<void> {
+  try {
+    await fs.promises.rename(from, to);
+  } catch (err: any) {
+    if (err?.code !== 'EXDEV') throw err;
+    await ensureRoom(from, path.dirname(to));
+    try {
+      await fs.promises.cp(from, to, {recursive: true, preserveTimestamps: true, verbatimSymlinks: true});
+    } catch (copyErr) {
+      await fs.promises.rm(to, {recursive: true, force: true}).catch(() => {});
+      throw copyErr;
+    }
+    await arrived();
+    try {
+      await fs.promises.rm(from, {recursive: true, force: true});
+    } catch (rmErr: any) {
+      throw new Error(`Copied ${from} to ${to}, but could not remove all of ${from}: ${rmErr?.message || rmErr}`);
+    }
+    return;
+  }
+  await arrived();
+}
+
+// `original` is absolute, or relative to the topdir for a trash on another volume.
+function trashInfo(original: string, at: number): string {
+  const d = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  const encoded = original.split('/').map(encodeURIComponent).join('/');
+  return `[Trash Info]\nPath=${encoded}\nDeletionDate=${date}\n`;
+}
+
+export async function moveToTrash(target: string, opts: {mode?: DeleteMode; batch?: string} = {}): Promise<TrashRecord> {
+  const mode = opts.mode ?? deleteMode();
+  const original = path.resolve(target);
+  const at = Date.now();
+  const id = `${at.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const base = path.basename(original);
+  let stored: string;
+  let infoFile: string | undefined;
+
+  if (mode === 'staging') {
+    const dir = path.join(stagingDir(), id);
+    await fs.promises.mkdir(dir, {recursive: true});
+    stored = path.join(dir, base);
+  } else if (currentPlatform() === 'darwin') {
+    const dir = path.join(os.homedir(), '.Trash');
+    await fs.promises.mkdir(dir, {recursive: true});
+    stored = await uniqueName(dir, base, (n) => exists(path.join(dir, n)));
+  } else {
+    const trash = await linuxTrashFor(original);
+    const filesDir = path.join(trash.dir, 'files');
+    const infoDir = path.join(trash.dir, 'info');
+    await fs.promises.mkdir(filesDir, {recursive: true, mode: 0o700});
+    await fs.promises.mkdir(infoDir, {recursive: true, mode: 0o700});
+    stored = await uniqueName(filesDir, base, async (n) => (await exists(path.join(filesDir, n))) || exists(path.join(infoDir, `${n}.trashinfo`)));
+    infoFile = path.join(infoDir, `${path.basename(stored)}.trashinfo`);
+    await fs.promises.writeFile(infoFile, trashInfo(trash.topdir ? path.relative(trash.topdir, original) : original, at), {flag: 'wx'});
+  }
+
+  const rec: TrashRecord = { id, original, stored, method: mode, at, ...(infoFile ? {infoFile} : {}), ...(opts.batch ? {batch: opts.batch} : {}) };
+  let journaled = false;
+  try {
+    await moveAcross(original, stored, async () => {
+      await appendJournal({ action: 'trash', ...rec });
+      journaled = true;
+    });
+  } catch (err) {
+    if (infoFile && !journaled) await fs.promises.rm(infoFile, {force: true});
+    throw err;
+  }
+  return rec;
+}
+
+// A record whose stored item is gone (trash emptied, staging folder removed)
+// is journaled as gone, so it is no longer offered for restore.
+export async function restoreTrashed(rec: TrashRecord): Promise<void> {
+  if (!(await exists(rec.stored))) {
+    await appendJournal({ action: 'gone', id: rec.id, at: Date.now() });
+    throw new Error(`Cannot restore: ${rec.stored} is gone (trash emptied?)`);
+  }
+  if (await exists(rec.original)) throw new Error(`Cannot restore: ${rec.original} already exists`);
+  await fs.promises.mkdir(path.dirname(rec.original), {recursive: true});
+  await moveAcross(rec.stored, rec.original, () => appendJournal({ action: 'restore', id: rec.id, at: Date.now() }));
+  if (rec.infoFile) await fs.promises.rm(rec.infoFile, {force: true});
+  if (rec.method === 'staging') await fs.promises.rm(path.dirname(rec.stored), {recursive: true, force: true});
+}
+
+// Restores the most recent delete that is still restorable, or every item of
+// its batch. Records whose stored item is gone are journaled as gone and
+// skipped, falling back to the delete before when a whole batch is gone. An
+// item that fails to come back does not stop the rest of its batch.
+export async function undoLast(): Promise<UndoResult> {
+  for (;;) {
+    const live = await listTrashed();
+    const last = live[live.length - 1];
+    if (!last) return { restored: [], failed: [] };
+    const group = last.batch ? live.filter((r) => r.batch === last.batch) : [last];
+    const present: TrashRecord[] = [];
+    for (const rec of group) {
+      if (await exists(rec.stored)) present.push(rec);
+      else await appendJournal({ action: 'gone', id: rec.id, at: Date.now() });
+    }
+    if (!present.length) continue;
+    const result: UndoResult = { restored: [], failed: [] };
+    for (const rec of present) {
+      try {
+        await restoreTrashed(rec);
+        result.restored.push(rec);
+      } catch (err: any) {
+        result.failed.push({ record: rec, error: err?.message || String(err) });
+      }
+    }
+    return result;
+  }
+}
+
+// Permanently removes staged items older than the retention window.
+export async function purgeStaging(now = Date.now()): Promise<TrashRecord[]> {
+  const cutoff = now - stagingDays() * 86_400_000;
+  const purged: TrashRecord[] = [];
+  for (const rec of await listTrashed()) {
+    if (rec.method !== 'staging' || rec.at > cutoff) continue;
+    await fs.promises.rm(path.dirname(rec.stored), {recursive: true, force: true});
+    await appendJournal({ action: 'purge', id: rec.id, at: now });
+    purged.push(rec);
+  }
+  return purged;
+}
@@ -0,0 +1,253 @@
+import path from 'node:path';
+import {SizeEntry} from './utils.js';
+import {FileType, mergeTypeSizes, typeFromName, TypeSizes} from './filetypes.js';
+
+export type FileLeaf = { name: string; kb: number };
+
+// Directory size tree produced by the walker. Only directories become nodes;
+// files are folded into their parent's kb, and the largest few are kept in `files`.
+export type SizeNode = {
+  name: string;
+  kb: number;
+  mtime: number; // directory mtime in seconds when walked; changes when entries are added/removed
+  children: SizeNode[]; // largest first
+  scannedAt?: number; // set on the node a scan started from; inherited by descendants
+  files?: FileLeaf[]; // largest files directly inside, largest first
+  newestMtime?: number; // newest file mtime/atime anywhere in the subtree, in seconds
+  newestAtime?: number;
+  types?: TypeSizes; // KB per file type in the subtree
+  fileCount?: number; // non-directory entries anywhere in the subtree
+  dirCount?: number; // folders anywhere in the subtree, not counting this one
+  partial?: boolean; // from a cancelled scan, or holds one below it: sizes are too small
+  unreadable?: number; // paths anywhere in the subtree the walker could not read, left out of kb
+  denied?: string[]; // those directly here: entry names, or '.' when this folder itself could not be listed
+};
+
+// Scanned roots keyed by absolute path. Scanning below an existing root is
+// grafted into it, scanning above one replaces it.
+export type SizeForest = Map<string, SizeNode>;
+
+export type TreeHit = { node: SizeNode; scannedAt: number; partial: boolean };
+
+// On-disk form: [name, kb, mtime, children?, scannedAt?, files?, [newestMtime, newestAtime]?, types?, [fileCount, dirCount]?, partial?, denied?]
+// `unreadable` is not stored; it is summed from `denied` when unpacking.
+export type PackedNode = [string, number, number, PackedNode[]?, number?, Array<[string, number]>?, [number, number]?, Array<[FileType, number]>?, [number, number]?, 1?, string[]?];
+
+export function sortNodes(nodes: SizeNode[]): SizeNode[] {
+  return nodes.sort((a, b) => b.kb - a.kb);
+}
+
+export function isWithin(root: string, p: string): boolean {
+  if (p === root) return true;
+  const rel = path.relative(root, p);
+  return !!rel && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+// Drops paths that sit inside another path of the list.
+export function outermostPaths(paths: string[]): string[] {
+  return paths.filter((p) => !paths.some((other) => other !== p && isWithin(other, p)));
+}
+
+function segmentsBelow(root: string, p: string): string[] {
+  return p === root ? [] : path.relative(root, p).split(path.sep);
+}
+
+// Nodes from the enclosing root down to `p`, or null if `p` was never walked.
+function findChain(forest: SizeForest, p: string): SizeNode[] | null {
+  roots: for (const [root, rootNode] of forest) {
+    if (!isWithin(root, p)) continue;
+    const chain = [rootNode];
+    for (const seg of segmentsBelow(root, p)) {
+      const next = chain[chain.length - 1]!.children.find((c) => c.name === seg);
+      if (!next) continue roots;
+      chain.push(next);
+    }
+    return chain;
+  }
+  return null;
+}
+
+export function findNode(forest: SizeForest, p: string): TreeHit | null {
+  const chain = findChain(forest, p);
+  if (!chain) return null;
+  const scannedAt = chain.reduce((t, n) => n.scannedAt ?? t, 0);
+  return { node: chain[chain.length - 1]!, scannedAt, partial: chain.some((n) => n.partial) };
+}
+
+// Largest files inside `node`, either directly or anywhere in its subtree.
+export function largestFiles(dirPath: string, node: SizeNode, limit: number, subtree = true): SizeEntry[] {
+  const out: SizeEntry[] = [];
+  const visit = (p: string, n: SizeNode) => {
+    for (const f of n.files || []) out.push({ kb: f.kb, path: path.join(p, f.name) });
+    if (subtree) for (const c of n.children) visit(path.join(p, c.name), c);
+  };
+  visit(dirPath, node);
+  out.sort((a, b) => b.kb - a.kb);
+  return out.slice(0, limit);
+}
+
+// Every folder in the forest and every file it lists, for path search.
+export function forestEntries(forest: SizeForest): Array<SizeEntry & { file: boolean }> {
+  const out: Array<SizeEntry & { file: boolean }> = [];
+  const visit = (p: string, n: SizeNode) => {
+    out.push({ kb: n.kb, path: p, file: false });
+    for (const f of n.files || []) out.push({ kb: f.kb, path: path.join(p, f.name), file: true });
+    for (const c of n.children) visit(path.join(p, c.name), c);
+  };
+  for (const [root, node] of forest) visit(root, node);
+  return out;
+}
+
+// Subtree times as SizeEntry fields (ms); empty when the walker saw no files.
+export function usedTimes(node: Pick<SizeNode, 'newestMtime' | 'newestAtime'>): Pick<SizeEntry, 'modifiedAt' | 'accessedAt'> {
+  const times: Pick<SizeEntry, 'modifiedAt' | 'accessedAt'> = {};
+  if (node.newestMtime) times.modifiedAt = node.newestMtime * 1000;
+  if (node.newestAtime) times.accessedAt = node.newestAtime * 1000;
+  return times;
+}
+
+// Subtree item counts as SizeEntry fields (0 for trees cached before counts were kept).
+export function itemCounts(node: Pick<SizeNode, 'fileCount' | 'dirCount'>): Pick<SizeEntry, 'fileCount' | 'dirCount'> {
+  return { fileCount: node.fileCount ?? 0, dirCount: node.dirCount ?? 0 };
+}
+
+// 'error' when the folder itself could not be listed (its size is 0), 'partial'
+// when something below it could not be read (its size is a lower bound).
+export function readStatus(node: Pick<SizeNode, 'unreadable' | 'denied'>): Pick<SizeEntry, 'unreadable' | 'status'> {
+  if (!node.unreadable) return {};
+  return { unreadable: node.unreadable, status: node.denied?.includes('.') ? 'error' : 'partial' };
+}
+
+export function childEntries(dirPath: string, node: SizeNode): SizeEntry[] {
+  return node.children.map((c) => ({ kb: c.kb, path: path.join(dirPath, c.name), ...usedTimes(c), ...itemCounts(c), ...readStatus(c) }));
+}
+
+// Absolute paths of everything below `dirPath` that the walker could not read.
+export function deniedPaths(dirPath: string, node: SizeNode): string[] {
+  const out: string[] = [];
+  const visit = (p: string, n: SizeNode) => {
+    if (!n.unreadable) return;
+    for (const name of n.denied || []) out.push(name === '.' ? p : path.join(p, name));
+    for (const c of n.children) visit(path.join(p, c.name), c);
+  };
+  visit(dirPath, node);
+  return out;
+}
+
+// Inserts a freshly scanned subtree for `p`, returning a new forest. When the
+// parent is already known the subtree is grafted in and ancestor totals are
+// adjusted; otherwise `p` becomes a root and replaces any roots below it.
+export function graftTree(forest: SizeForest, p: string, tree: SizeNode, scannedAt: number): SizeForest {
+  const next: SizeForest = new Map(forest);
+  const fresh: SizeNode = { ...tree, name: path.basename(p) || p, scannedAt };
+  const parent = path.dirname(p);
+  const chain = parent !== p && !next.has(p) ? findChain(next, parent) : null;
+  if (chain) {
+    const siblings = chain[chain.length - 1]!.children;
+    const oldIdx = siblings.findIndex((c) => c.name === fresh.name);
+    const old = oldIdx >= 0 ? siblings[oldIdx] : undefined;
+    const delta = fresh.kb - (old?.kb ?? 0);
+    if (oldIdx >= 0) siblings[oldIdx] = fresh;
+    else siblings.push(fresh);
+    const fileDelta = (fresh.fileCount ?? 0) - (old?.fileCount ?? 0);
+    const dirDelta = (fresh.dirCount ?? 0) - (old ? old.dirCount ?? 0 : -1);
+    const unreadableDelta = (fresh.unreadable ?? 0) - (old?.unreadable ?? 0);
+    for (const n of chain) {
+      n.kb += delta;
+      n.fileCount = (n.fileCount ?? 0) + fileDelta;
+      n.dirCount = (n.dirCount ?? 0) + dirDelta;
+      if (unreadableDelta) n.unreadable = Math.max(0, (n.unreadable ?? 0) + unreadableDelta);
+      n.types = mergeTypeSizes(mergeTypeSizes(n.types, old?.types, -1), fresh.types);
+      if (fresh.newestMtime) n.newestMtime = Math.max(n.newestMtime ?? 0, fresh.newestMtime);
+      if (fresh.newestAtime) n.newestAtime = Math.max(n.newestAtime ?? 0, fresh.newestAtime);
+      if (fresh.partial) n.partial = true; // its total now includes the partial subtree
+      sortNodes(n.children);
+    }
+    return next;
+  }
+  for (const root of forest.keys()) {
+    if (isWithin(p, root)) next.delete(root);
+  }
+  next.set(p, fresh);
+  return next;
+}
+
+// Drops `p` (a folder or a listed file, e.g. after deleting it) and subtracts
+// its size from its ancestors.
+export function pruneTree(forest: SizeForest, p: string): SizeForest {
+  const next: SizeForest = new Map(forest);
+  for (const root of forest.keys()) {
+    if (isWithin(p, root)) next.delete(root);
+  }
+  const chain = findChain(next, path.dirname(p));
+  if (!chain) return next;
+  const parent = chain[chain.length - 1]!;
+  const name = path.basename(p);
+  const idx = parent.children.findIndex((c) => c.name === name);
+  const fileIdx = idx < 0 && parent.files ? parent.files.findIndex((f) => f.name === name) : -1;
+  let removedKb: number;
+  let removedTypes: TypeSizes | undefined;
+  let removedFiles = 1;
+  let removedDirs = 0;
+  let removedUnreadable = 0;
+  if (idx >= 0) {
+    const removed = parent.children.splice(idx, 1)[0]!;
+    removedKb = removed.kb;
+    removedTypes = removed.types;
+    removedFiles = removed.fileCount ?? 0;
+    removedDirs = (removed.dirCount ?? 0) + 1;
+    removedUnreadable = removed.unreadable ?? 0;
+  } else if (fileIdx >= 0) {
+    removedKb = parent.files!.splice(fileIdx, 1)[0]!.kb;
+    // Listed files were typed by the walker; the extension is the best guess here
+    removedTypes = { [typeFromName(name) ?? 'other']: removedKb };
+  } else return next;
+  for (const n of chain) {
+    n.kb -= removedKb;
+    if (n.types) n.types = mergeTypeSizes(n.types, removedTypes, -1);
+    if (n.fileCount) n.fileCount = Math.max(0, n.fileCount - removedFiles);
+    if (n.dirCount) n.dirCount = Math.max(0, n.dirCount - removedDirs);
+    if (n.unreadable) n.unreadable = Math.max(0, n.unreadable - removedUnreadable);
+  }
+  return next;
+}
+
+// Optional fields are positional: empty ones at the end are dropped to keep the cache small.
+function isEmptySlot(v: PackedNode[number]): boolean {
+  return v == null || v === 0 || (Array.isArray(v) && (v.length === 0 || v.every((x) => x === 0)));
+}
+
+export function packNode(node: SizeNode): PackedNode {
+  const packed: PackedNode = [
+    node.name,
+    node.kb,
+    node.mtime,
+    node.children.map(packNode),
+    node.scannedAt ?? 0,
+    (node.files || []).map((f): [string, number] => [f.name, f.kb]),
+    [node.newestMtime ?? 0, node.newestAtime ?? 0],
+    Object.entries(node.types ?? {}) as Array<[FileType, number]>,
+    [node.fileCount ?? 0, node.dirCount ?? 0],
+    node.partial ? 1 : undefined,
+    node.denied ?? [],
+  ];
+  while (packed.length > 3 && isEmptySlot(packed[packed.length - 1])) packed.pop();
+  return packed;
+}
+
+export function unpackNode(packed: PackedNode): SizeNode {
+  const [name, kb, mtime, children, scannedAt, files, used, types, counts, partial, denied] = packed;
+  const node: SizeNode = { name, kb, mtime, children: (children || []).map(unpackNode) };
+  if (scannedAt) node.scannedAt = scannedAt;
+  if (files?.length) node.files = files.map(([n, k]) => ({ name: n, kb: k }));
+  if (used?.[0]) node.newestMtime = used[0];
+  if (used?.[1]) node.newestAtime = used[1];
+  if (types?.length) node.types = Object.fromEntries(types);
+  if (counts?.[0]) node.fileCount = counts[0];
+  if (counts?.[1]) node.dirCount = counts[1];
+  if (partial) node.partial = true;
+  if (denied?.length) node.denied = denied;
+  const unreadable = (denied?.length ?? 0) + node.children.reduce((sum, c) => sum + (c.unreadable ?? 0), 0);
+  if (unreadable) node.unreadable = unreadable;
+  return node;
+}
@@ -1,34 +1,20 @@
 #!/usr/bin/env node
-import React, {useEffect, useMemo, useState} from 'react';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
 import {Box, Text} from 'ink';
-import fs from 'node:fs';
 import path from 'node:path';
-import {humanFromKB, SizeEntry} from '../utils.js';
-import {presetLocations, scanDirsDepth1, scanLargeFiles, scanNodeModules, sizeIfExists, Progress} from '../scanners.js';
-
-type Cmd = 'dirs' | 'files' | 'nodes' | 'preset';
-
-function parseArgs(argv: string[]) {
-  const a = argv[0] === '--' ? argv.slice(1) : argv.slice();
-  const maybeCmd = a[0] as Cmd | undefined;
-  const cmd: Cmd = (maybeCmd === 'dirs' || maybeCmd === 'files' || maybeCmd === 'nodes' || maybeCmd === 'preset') ? maybeCmd : 'preset';
-  let startPath = process.env.HOME || process.cwd();
-  let top = 25;
-  let minSizeMb = 100;
-  const excludes: string[] = [];
-  let debug = false;
-
-  for (let i = 1; i < a.length; i++) {
-    const token = a[i];
-    if (token === '--path') startPath = a[++i]!;
-    else if (token === '--top') top = parseInt(a[++i]!, 10) || top;
-    else if (token === '--min-size-mb') minSizeMb = parseInt(a[++i]!, 10) || minSizeMb;
-    else if (token === '--exclude') excludes.push(a[++i]!);
-    else if (token === '--debug') debug = true;
-    else if (token === '-h' || token === '--help') return { cmd: 'help' as any };
-  }
-  return { cmd, startPath, top, minSizeMb, excludes, debug };
-}
+import {AGE_BUCKETS, ageBucket, formatAge, humanFromKB, lastUsed, readMarker, SizeEntry, unreadableSummary} from '../utils.js';
+import {DupeSet, PresetSection, Progress} from '../scanners.js';
+import {DiffEntry, formatDeltaKb} from '../diff.js';
+import {TrashRecord, UndoResult} from '../trash.js';
+import {parseArgs, USAGE} from '../cli.js';
+import {Config} from '../config.js';
+import {CommandResult, exitCodeFor, runCommand} from '../commands.js';
+import {BudgetResult, formatLimit} from '../budgets.js';
+import {ArtifactProject} from '../artifacts.js';
+import {FileType, TypeSizes} from '../filetypes.js';
+import TypeBars from './TypeBars.js';
+import VolumeBar from './VolumeBar.js';
+import {Volume} from '../volumes.js';
 
 function Header({children}: {children: React.ReactNode}) {
   return (
@@ -36,6 +22,16 @@ function Header({children}: {children: React.ReactNode}) {
   );
 }
 
+function ReadMarker({entry}: {entry: SizeEntry}) {
+  const marker = readMarker(entry);
+  return marker ? <Text color={entry.status === 'error' ? 'red' : 'yellow'}> {marker}</Text> : null;
+}
+
+function ReadSummary({items}: {items: SizeEntry[]}) {
+  const summary = unreadableSummary(items);
+  return summary ? <Text color="yellow">{summary}</Text> : null;
+}
+
 function Listing({items}: {items: SizeEntry[]}) {
   return (
     <>
@@ -44,36 +40,166 @@ function Listing({items}: {items: SizeEntry[]}) {
           <Text color="green">{humanFromKB(it.kb).padEnd(8)}</Text>
           <Text> </Text>
           <Text>{it.path}</Text>
+          <ReadMarker entry={it}/>
         </Box>
       ))}
+      <ReadSummary items={items}/>
     </>
   );
 }
 
-function Help() {
+const KIND_COLOR: Record<DiffEntry['kind'], string> = { grew: 'red', added: 'red', shrank: 'green', removed: 'green' };
+
+function DiffListing({items}: {items: DiffEntry[]}) {
   return (
     <>
-      <Text>storage-scan (Ink) - macOS disk usage helper</Text>
-      <Box marginTop={1} flexDirection="column">
-        <Text>Usage:</Text>
-        <Text>  storage-scan dirs   --path PATH --top N --exclude GLOB...</Text>
-        <Text>  storage-scan files  --path PATH --top N --min-size-mb M --exclude GLOB...</Text>
-        <Text>  storage-scan nodes  --path PATH --top N --exclude GLOB...</Text>
-        <Text>  storage-scan preset --top N</Text>
-      </Box>
+      {items.map((it, i) => (
+        <Box key={i}>
+          <Text color={KIND_COLOR[it.kind]}>{formatDeltaKb(it.deltaKb).padEnd(10)}</Text>
+          <Text dimColor>{`${humanFromKB(it.beforeKb)} → ${humanFromKB(it.afterKb)}`.padEnd(20)}</Text>
+          <Text dimColor>{it.kind.padEnd(8)}</Text>
+          <Text>{it.path}</Text>
+        </Box>
+      ))}
+    </>
+  );
+}
+
+function DupeListing({sets}: {sets: DupeSet[]}) {
+  return (
+    <>
+      {sets.map((set) => (
+        <Box key={set.hash} flexDirection="column" marginTop={1}>
+          <Text>
+            <Text color="red">{`wasted ${humanFromKB(set.wastedKb)}`.padEnd(16)}</Text>
+            <Text dimColor>{set.paths.length} copies × {humanFromKB(set.kb)} · sha256 {set.hash.slice(0, 12)}</Text>
+          </Text>
+          {set.paths.map((p) => <Text key={p}>  {p}</Text>)}
+        </Box>
+      ))}
+    </>
+  );
+}
+
+function ArtifactListing({projects}: {projects: ArtifactProject[]}) {
+  const now = Date.now();
+  return (
+    <>
+      {projects.map((proj) => (
+        <Box key={proj.root} flexDirection="column" marginTop={1}>
+          <Text>
+            <Text color="green">{humanFromKB(proj.kb).padEnd(8)}</Text>
+            <Text> {proj.root}</Text>
+            <Text dimColor> · untouched {formatAge(now - proj.lastModified)}</Text>
+          </Text>
+          {proj.artifacts.map((a) => (
+            <Text key={a.path} dimColor>{'  ' + humanFromKB(a.kb).padEnd(8)} {path.relative(proj.root, a.path)}  ({a.rule})</Text>
+          ))}
+        </Box>
+      ))}
     </>
   );
 }
 
-export default function App() {
-  const args = useMemo(() => parseArgs(process.argv.slice(2)), []);
+// Folders grouped by when anything inside was last written or read, oldest group first.
+function StaleListing({items}: {items: SizeEntry[]}) {
+  const now = Date.now();
+  const age = (e: SizeEntry) => now - (lastUsed(e) ?? 0);
+  return (
+    <>
+      {AGE_BUCKETS.map((bucket) => {
+        const group = items.filter((e) => ageBucket(age(e)) === bucket);
+        if (group.length === 0) return null;
+        return (
+          <Box key={bucket} flexDirection="column" marginTop={1}>
+            <Text>
+              <Text color={bucket === '>1y' ? 'yellow' : undefined} bold>{`last used ${bucket}`.padEnd(16)}</Text>
+              <Text dimColor>{group.length} folder{group.length === 1 ? '' : 's'} · {humanFromKB(group.reduce((sum, e) => sum + e.kb, 0))}</Text>
+            </Text>
+            {group.map((e) => (
+              <Text key={e.path}>
+                <Text color="green">{humanFromKB(e.kb).padEnd(8)}</Text>
+                <Text> {e.path}</Text>
+                <Text dimColor> · {lastUsed(e) == null ? 'no files' : `idle ${formatAge(age(e))}`}</Text>
+                <ReadMarker entry={e}/>
+              </Text>
+            ))}
+          </Box>
+        );
+      })}
+      <ReadSummary items={items}/>
+    </>
+  );
+}
+
+function CheckTable({results}: {results: BudgetResult[]}) {
+  // Free space is per filesystem: name the path it was read from
+  const label = (r: BudgetResult) => r.kind === 'free' ? `${r.target} (${r.path})` : r.target;
+  const width = Math.max(...results.map((r) => label(r).length));
+  return (
+    <>
+      {results.map((r, i) => (
+        <Box key={i}>
+          <Text color={r.pass ? 'green' : 'red'} bold>{r.pass ? 'PASS ' : 'FAIL '}</Text>
+          <Text>{label(r).padEnd(width)}  </Text>
+          <Text color={r.pass ? undefined : 'red'}>{(r.bytes == null ? '—' : humanFromKB(r.bytes / 1024)).padStart(9)}</Text>
+          <Text dimColor>  {formatLimit(r)}</Text>
+          {r.error && <Text color="red">  {r.error}</Text>}
+          {r.missing && <Text dimColor>  (missing)</Text>}
+          {r.status === 'partial' && <Text color="yellow">  ⚠ some paths unreadable; size is a lower bound</Text>}
+        </Box>
+      ))}
+    </>
+  );
+}
+
+function VolumeTable({volumes}: {volumes: Volume[]}) {
+  const width = Math.max(5, ...volumes.map((v) => v.mount.length));
+  return (
+    <>
+      <Text dimColor>{`${'Mount'.padEnd(width)}  ${'Size'.padStart(9)} ${'Used'.padStart(9)} ${'Free'.padStart(9)}`}</Text>
+      {volumes.map((v) => (
+        <Box key={v.mount}>
+          <Text>{v.mount.padEnd(width)}  </Text>
+          <Text>{humanFromKB(v.totalBytes / 1024).padStart(9)} {humanFromKB(v.usedBytes / 1024).padStart(9)} </Text>
+          <Text color="green">{humanFromKB(v.freeBytes / 1024).padStart(9)}  </Text>
+          <VolumeBar percent={v.usedPercent}/>
+          <Text dimColor>  {v.type} {v.device}</Text>
+        </Box>
+      ))}
+    </>
+  );
+}
+
+function Help() {
+  return (
+    <Box flexDirection="column">
+      {USAGE.map((line, i) => <Text key={i}>{line || ' '}</Text>)}
+    </Box>
+  );
+}
+
+export default function App({config}: {config: Config}) {
+  const args = useMemo(() => parseArgs(process.argv.slice(2), config), [config]);
   const [items, setItems] = useState<SizeEntry[]>([]);
+  const [dupes, setDupes] = useState<DupeSet[]>([]);
+  const [sections, setSections] = useState<PresetSection[]>([]);
+  const [projects, setProjects] = useState<ArtifactProject[]>([]);
+  const [types, setTypes] = useState<{bytes: number; types: TypeSizes} | null>(null);
+  const [diff, setDiff] = useState<{from: string; to: string; entries: DiffEntry[]} | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [trashed, setTrashed] = useState<TrashRecord[] | null>(null);
+  const [restored, setRestored] = useState<{records: TrashRecord[]; failed: UndoResult['failed']} | null>(null);
+  const [checks, setChecks] = useState<BudgetResult[]>([]);
+  const [volumes, setVolumes] = useState<Volume[]>([]);
+  const [report, setReport] = useState<Extract<CommandResult, {kind: 'report'}> | null>(null);
   const [loading, setLoading] = useState(true);
   const [progress, setProgress] = useState<Progress | null>(null);
   const [startTs] = useState<number>(Date.now());
   const [, forceTick] = useState(0);
+  const measuredRef = useRef<SizeEntry[]>([]); // dirs/files/nodes found so far; shown on each tick
 
-  // Re-render every 250ms while loading to update elapsed/ETA
+  // Re-render every 250ms while loading to update the elapsed time and the results so far
   useEffect(() => {
     if (!loading) return;
     const t = setInterval(() => forceTick((x) => x + 1), 250);
@@ -81,61 +207,73 @@ export default function App() {
   }, [loading]);
 
   useEffect(() => {
+    const scan = new AbortController(); // Ctrl+C unmounts: stop walks and child processes
     (async () => {
-      if ((args as any).cmd === 'help') { setLoading(false); return; }
+      if (args.cmd === 'help') { setLoading(false); return; }
       try {
-        const onProg = (p: Progress) => setProgress(p);
-        if (args.cmd === 'dirs') {
-          const res = await scanDirsDepth1(path.resolve(args.startPath!), args.excludes!, (args as any).debug, onProg);
-          setItems(res.slice(0, args.top));
-        } else if (args.cmd === 'files') {
-          const res = await scanLargeFiles(path.resolve(args.startPath!), args.minSizeMb!, args.excludes!, onProg);
-          setItems(res.slice(0, args.top));
-        } else if (args.cmd === 'nodes') {
-          const res = await scanNodeModules(path.resolve(args.startPath!), args.excludes!, onProg);
-          setItems(res.slice(0, args.top));
-        } else if (args.cmd === 'preset') {
-          // For preset, we don’t show a single list; just mark done here.
-        }
+        const res = await runCommand(args, (p) => setProgress(p), scan.signal, (e) => { measuredRef.current.push(e); });
+        if (scan.signal.aborted) return;
+        if (res.kind === 'sizes' || res.kind === 'stale') setItems(res.entries);
+        else if (res.kind === 'preset') setSections(res.sections);
+        else if (res.kind === 'dupes') setDupes(res.sets);
+        else if (res.kind === 'artifacts') setProjects(res.projects);
+        else if (res.kind === 'types') setTypes({bytes: res.bytes, types: res.types});
+        else if (res.kind === 'diff') setDiff({from: res.from, to: res.to, entries: res.entries});
+        else if (res.kind === 'restored') setRestored({records: res.records, failed: res.failed ?? []});
+        else if (res.kind === 'check') setChecks(res.results);
+        else if (res.kind === 'volumes') setVolumes(res.volumes);
+        else if (res.kind === 'report') setReport(res);
+        else setTrashed(res.records);
+        process.exitCode = exitCodeFor(res);
+      } catch (e: any) {
+        setError(e?.message || String(e));
+        process.exitCode = 1;
       } finally {
         setLoading(false);
       }
     })();
+    return () => scan.abort();
   }, [args]);
 
-  if ((args as any).cmd === 'help') return <Help/>;
+  if (args.cmd === 'help') return <Help/>;
 
-  if (args.cmd === 'preset') {
-    const [sections, setSections] = useState<Array<{label: string; entries: SizeEntry[]}>>([]);
-    useEffect(() => {
-      (async () => {
-        const out: Array<{label: string; entries: SizeEntry[]}> = [];
-        // High-level known locations
-        const sized: SizeEntry[] = [];
-        for (const loc of presetLocations) {
-          const v = await sizeIfExists(loc.path);
-          if (v) sized.push(v);
-        }
-        sized.sort((a, b) => b.kb - a.kb);
-        out.push({ label: 'Common Locations', entries: sized });
-
-        // Largest node_modules
-        const nodes = (await scanNodeModules(process.env.HOME!, [])).slice(0, args.top);
-        out.push({ label: `Largest node_modules (home) (top ${args.top})`, entries: nodes });
-
-        // Largest folders under Downloads, Movies, Library (depth 1)
-        const dl = process.env.HOME ? path.join(process.env.HOME, 'Downloads') : '';
-        const mv = process.env.HOME ? path.join(process.env.HOME, 'Movies') : '';
-        const lib = process.env.HOME ? path.join(process.env.HOME, 'Library') : '';
-        if (dl && fsExists(dl)) out.push({ label: `Downloads (depth 1, top ${args.top})`, entries: (await scanDirsDepth1(dl, [])).slice(0, args.top) });
-        if (mv && fsExists(mv)) out.push({ label: `Movies (depth 1, top ${args.top})`, entries: (await scanDirsDepth1(mv, [])).slice(0, args.top) });
-        if (lib && fsExists(lib)) out.push({ label: `Library (depth 1, top ${args.top})`, entries: (await scanDirsDepth1(lib, [])).slice(0, args.top) });
-
-        setSections(out);
-        setLoading(false);
-      })();
-    }, []);
+  if (error) return <Text color="red">Error: {error}</Text>;
 
+  if (args.cmd === 'restore') {
+    if (loading) return <Text color="yellow">Working…</Text>;
+    if (restored) {
+      return (
+        <Box flexDirection="column">
+          {restored.records.map((r) => <Text key={r.id} color="green">Restored {r.original}</Text>)}
+          {restored.failed.map((f) => <Text key={f.record.id} color="red">Not restored: {f.error}</Text>)}
+        </Box>
+      );
+    }
+    return (
+      <Box flexDirection="column">
+        <Header>Restorable items (newest last)</Header>
+        {!trashed || trashed.length === 0 ? <Text dimColor>(none)</Text> : trashed.map((r) => (
+          <Box key={r.id}>
+            <Text dimColor>{new Date(r.at).toLocaleString().padEnd(24)}</Text>
+            <Text color="cyan">{r.id.padEnd(18)}</Text>
+            <Text>{r.original}</Text>
+          </Box>
+        ))}
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'diff') {
+    if (loading || !diff) return <Text color="yellow">Comparing…</Text>;
+    return (
+      <Box flexDirection="column">
+        <Header>Changes from {diff.from} to {diff.to}</Header>
+        {diff.entries.length === 0 ? <Text dimColor>(no changes)</Text> : <DiffListing items={diff.entries}/>}
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'preset') {
     return (
       <Box flexDirection="column">
         <Text>Quick scan of common heavy locations</Text>
@@ -150,15 +288,92 @@ export default function App() {
     );
   }
 
+  if (args.cmd === 'dupes' && !loading) {
+    const wasted = dupes.reduce((sum, d) => sum + d.wastedKb, 0);
+    return (
+      <Box flexDirection="column">
+        <Header>Duplicate files &gt;= {args.minSizeMb}MB under {path.resolve(args.startPath!)} · {humanFromKB(wasted)} reclaimable</Header>
+        {dupes.length === 0 ? <Text dimColor>(no duplicates)</Text> : <DupeListing sets={dupes}/>}
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'artifacts' && !loading) {
+    const total = projects.reduce((sum, p) => sum + p.kb, 0);
+    return (
+      <Box flexDirection="column">
+        <Header>Build artifacts under {path.resolve(args.startPath!)}{args.olderThan ? ` in projects untouched for ${args.olderThan}+` : ''} · {humanFromKB(total)} regenerable</Header>
+        {projects.length === 0 ? <Text dimColor>(no artifacts)</Text> : <ArtifactListing projects={projects}/>}
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'types' && !loading && types) {
+    const kb = Object.fromEntries(Object.entries(types.types).map(([t, b]) => [t as FileType, Math.ceil(b / 1024)]));
+    return (
+      <Box flexDirection="column">
+        <Header>File types under {path.resolve(args.startPath!)} · {humanFromKB(Math.ceil(types.bytes / 1024))}</Header>
+        <TypeBars types={kb}/>
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'check' && !loading) {
+    const failed = checks.filter((r) => !r.pass).length;
+    return (
+      <Box flexDirection="column">
+        <Header>Disk budgets · {failed ? `${failed} of ${checks.length} failed` : `all ${checks.length} passed`}</Header>
+        <CheckTable results={checks}/>
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'volumes' && !loading) {
+    return (
+      <Box flexDirection="column">
+        <Header>Mounted filesystems · {volumes.length}</Header>
+        {volumes.length === 0 ? <Text dimColor>(none found)</Text> : <VolumeTable volumes={volumes}/>}
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'report' && !loading && report) {
+    return (
+      <Box flexDirection="column">
+        <Text color="green">Report written to {report.file}</Text>
+        <Text dimColor>
+          {report.root} · {humanFromKB(report.kb)} in {report.files} file{report.files === 1 ? '' : 's'}, {report.folders} folder{report.folders === 1 ? '' : 's'}
+          {report.unreadable > 0 && ` · ⚠ ${report.unreadable} unreadable`}
+        </Text>
+      </Box>
+    );
+  }
+
+  if (args.cmd === 'stale' && !loading) {
+    const total = items.reduce((sum, e) => sum + e.kb, 0);
+    return (
+      <Box flexDirection="column">
+        <Header>Subfolders of {path.resolve(args.startPath!)} by last use{args.olderThan ? `, idle for ${args.olderThan}+` : ''} · {humanFromKB(total)}</Header>
+        {items.length === 0 ? <Text dimColor>(no results)</Text> : <StaleListing items={items}/>}
+      </Box>
+    );
+  }
+
   const elapsedMs = Date.now() - startTs;
   const elapsedSec = (elapsedMs / 1000).toFixed(1);
   const pct = progress && progress.total > 0 ? Math.min(100, Math.floor((progress.processed / progress.total) * 100)) : 0;
-  // ETA intentionally omitted for now; percent + elapsed are sufficient.
+  const soFar = loading ? [...measuredRef.current].sort((a, b) => b.kb - a.kb).slice(0, args.top) : [];
 
   return (
     <Box flexDirection="column">
       {loading && (
-        <Text color="yellow">Scanning… {progress ? `${progress.processed}/${progress.total} (${pct}%)` : ''} | elapsed {elapsedSec}s</Text>
+        <Text color="yellow">Scanning… {progress ? `${progress.phase === 'measuring' ? '' : `${progress.phase} `}${progress.processed}/${progress.total} (${pct}%)` : ''} | elapsed {elapsedSec}s</Text>
+      )}
+      {soFar.length > 0 && (
+        <>
+          <Text dimColor>Largest so far (top {soFar.length} of {measuredRef.current.length}):</Text>
+          <Listing items={soFar}/>
+        </>
       )}
       {!loading && (
         <>
@@ -173,7 +388,3 @@ export default function App() {
     </Box>
   );
 }
-
-function fsExists(p: string) {
-  try { fs.accessSync(p); return true; } catch { return false; }
-}
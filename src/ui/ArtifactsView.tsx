@@ -0,0 +1,117 @@
+import React, {useEffect, useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import path from 'node:path';
+import {formatAge, humanFromKB} from '../utils.js';
+import {Progress} from '../scanners.js';
+import {ArtifactProject, ArtifactRule, scanArtifacts} from '../artifacts.js';
+import {loadExcludes} from '../ignore.js';
+
+const STALE_DAYS = 90;
+
+type Props = {
+  root: string;
+  rules: ArtifactRule[];
+  excludes: string[]; // config patterns, on top of the ignore files
+  marked: Map<string, number>;
+  onMark: (entries: Array<{path: string; kb: number}>, mark: boolean) => void;
+  onClose: () => void;
+  height: number; // lines available for the listing
+};
+
+type Line = {kind: 'project'; proj: ArtifactProject} | {kind: 'artifact'; proj: ArtifactProject; path: string; kb: number; rule: string};
+
+// Build artifacts under `root`, grouped by project. Marked artifacts are
+// deleted with the navigator's batch delete like any other selection.
+export default function ArtifactsView({root, rules, excludes, marked, onMark, onClose, height}: Props) {
+  const [projects, setProjects] = useState<ArtifactProject[] | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [scanId, setScanId] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const scan = new AbortController(); // leaving the view or rescanning stops the walk
+    setProjects(null);
+    (async () => {
+      const res = await scanArtifacts(root, rules, {exclude: await loadExcludes(root, excludes), signal: scan.signal}, (p) => { if (!cancelled) setProgress(p); });
+      if (!cancelled) {
+        setProjects(res);
+        setSelected(0);
+      }
+    })();
+    return () => { cancelled = true; scan.abort(); };
+  }, [root, rules, excludes, scanId]);
+
+  const now = Date.now();
+  const isStale = (proj: ArtifactProject) => now - proj.lastModified >= STALE_DAYS * 86_400_000;
+  const lines: Line[] = [];
+  for (const proj of projects || []) {
+    lines.push({kind: 'project', proj});
+    for (const a of proj.artifacts) lines.push({kind: 'artifact', proj, path: a.path, kb: a.kb, rule: a.rule});
+  }
+  const artifacts = lines.filter((l): l is Extract<Line, {kind: 'artifact'}> => l.kind === 'artifact');
+  const current = artifacts[Math.min(selected, artifacts.length - 1)];
+
+  useInput((input, key) => {
+    if (key.escape || key.leftArrow || input === 'b') {
+      onClose();
+    } else if (key.upArrow) {
+      setSelected((i) => artifacts.length ? (i - 1 + artifacts.length) % artifacts.length : 0);
+    } else if (key.downArrow) {
+      setSelected((i) => artifacts.length ? (i + 1) % artifacts.length : 0);
+    } else if (input === 'r') {
+      setScanId((n) => n + 1);
+    } else if (input === 't') {
+      // Every artifact of every project untouched for STALE_DAYS
+      onMark(artifacts.filter((a) => isStale(a.proj)).map((a) => ({path: a.path, kb: a.kb})), true);
+    } else if (!current) {
+      return;
+    } else if (input === 'p') {
+      const own = current.proj.artifacts.map((a) => ({path: a.path, kb: a.kb}));
+      onMark(own, !own.every((a) => marked.has(a.path)));
+    } else if (input === ' ' || input === 'm') {
+      onMark([{path: current.path, kb: current.kb}], !marked.has(current.path));
+    }
+  });
+
+  if (!projects) {
+    return (
+      <Box marginTop={1}>
+        <Text color="yellow">
+          Finding build artifacts… {progress ? `${progress.phase} ${progress.total ? `${progress.processed}/${progress.total}` : progress.processed}` : ''}
+        </Text>
+      </Box>
+    );
+  }
+
+  const selectedLine = current ? lines.indexOf(current) : 0;
+  const offset = Math.max(0, Math.min(selectedLine - Math.floor(height / 2), lines.length - height));
+  const total = projects.reduce((sum, p) => sum + p.kb, 0);
+  const staleKb = projects.filter(isStale).reduce((sum, p) => sum + p.kb, 0);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text>
+        <Text color="magenta" bold>Artifacts </Text>
+        <Text>{projects.length} projects · </Text>
+        <Text color="green">{humanFromKB(total)}</Text>
+        <Text> · {humanFromKB(staleKb)} in projects untouched {STALE_DAYS}d+</Text>
+        <Text dimColor>  (space/m: mark • p: mark project • t: mark all untouched {STALE_DAYS}d+ • r: rescan • Esc: back)</Text>
+      </Text>
+      {projects.length === 0 && <Text dimColor>(no artifacts)</Text>}
+      {lines.slice(offset, offset + height).map((l, i) => l.kind === 'project' ? (
+        <Text key={`p${offset + i}`}>
+          <Text color="green">{humanFromKB(l.proj.kb).padEnd(8)}</Text>
+          <Text> {path.relative(root, l.proj.root) || '.'}</Text>
+          <Text color={isStale(l.proj) ? 'yellow' : undefined} dimColor={!isStale(l.proj)}> · untouched {formatAge(now - l.proj.lastModified)}</Text>
+        </Text>
+      ) : (
+        <Box key={l.path}>
+          <Text color="magenta">{marked.has(l.path) ? '● ' : '  '}</Text>
+          <Text inverse={l === current}>{(l === current ? '▶ ' : '  ') + `${humanFromKB(l.kb).padEnd(8)} ${path.relative(l.proj.root, l.path)}`}</Text>
+          <Text dimColor> {l.rule}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,51 @@
+import React, {useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import path from 'node:path';
+
+type Props = {
+  root: string;
+  paths: string[]; // from the cached size tree (see deniedPaths)
+  onClose: () => void;
+  height: number; // lines available for the list
+};
+
+// Everything below `root` the last scan could not read. Their contents are
+// missing from every size above them.
+export default function DeniedView({root, paths, onClose, height}: Props) {
+  const [selected, setSelected] = useState(0);
+
+  useInput((_input, key) => {
+    if (key.escape) {
+      onClose();
+    } else if (key.upArrow) {
+      setSelected((i) => paths.length ? (i - 1 + paths.length) % paths.length : 0);
+    } else if (key.downArrow) {
+      setSelected((i) => paths.length ? (i + 1) % paths.length : 0);
+    }
+  });
+
+  const rows = Math.max(1, height - 3);
+  const offset = Math.max(0, Math.min(selected - Math.floor(rows / 2), paths.length - rows));
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text>
+        <Text color="yellow" bold>Unreadable </Text>
+        <Text>{paths.length} path{paths.length === 1 ? '' : 's'} under {root}</Text>
+        <Text dimColor>  (Up/Down: select • Esc: back)</Text>
+      </Text>
+      <Text dimColor>
+        {process.platform === 'darwin'
+          ? 'Permission denied or protected by macOS privacy settings: grant your terminal Full Disk Access, or rescan with sudo.'
+          : 'Permission denied or I/O errors: rescan with sudo, or as the owner, to measure them.'}
+      </Text>
+      {paths.length === 0 && <Text dimColor>(nothing — every path was read)</Text>}
+      {paths.slice(offset, offset + rows).map((p, i) => (
+        <Text key={p} inverse={offset + i === selected}>
+          {offset + i === selected ? '▶ ' : '  '}
+          {path.relative(root, p) || '.'}
+        </Text>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,107 @@
+import React, {useEffect, useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import path from 'node:path';
+import {humanFromKB} from '../utils.js';
+import {DupeSet, scanDuplicates, Progress} from '../scanners.js';
+import {loadExcludes} from '../ignore.js';
+
+const MIN_SIZE_MB = 1;
+
+type Props = {
+  root: string;
+  excludes: string[]; // config patterns, on top of the ignore files
+  marked: Map<string, number>;
+  onMark: (entries: Array<{path: string; kb: number}>, mark: boolean) => void;
+  onClose: () => void;
+  height: number; // lines available for the listing
+};
+
+type Line = {kind: 'set'; set: DupeSet} | {kind: 'copy'; set: DupeSet; path: string};
+
+// Duplicate sets under `root`. Picking the copy to keep marks every other copy,
+// so the navigator's batch delete can then move them to the trash.
+export default function DupesView({root, excludes, marked, onMark, onClose, height}: Props) {
+  const [sets, setSets] = useState<DupeSet[] | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [scanId, setScanId] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const scan = new AbortController(); // leaving the view or rescanning stops the walk
+    setSets(null);
+    (async () => {
+      const res = await scanDuplicates(root, MIN_SIZE_MB, {exclude: await loadExcludes(root, excludes), signal: scan.signal}, (p) => { if (!cancelled) setProgress(p); });
+      if (!cancelled) {
+        setSets(res);
+        setSelected(0);
+      }
+    })();
+    return () => { cancelled = true; scan.abort(); };
+  }, [root, excludes, scanId]);
+
+  const lines: Line[] = [];
+  for (const set of sets || []) {
+    lines.push({kind: 'set', set});
+    for (const p of set.paths) lines.push({kind: 'copy', set, path: p});
+  }
+  const copies = lines.filter((l): l is Extract<Line, {kind: 'copy'}> => l.kind === 'copy');
+  const current = copies[Math.min(selected, copies.length - 1)];
+
+  useInput((input, key) => {
+    if (key.escape || key.leftArrow || input === 'b') {
+      onClose();
+    } else if (key.upArrow) {
+      setSelected((i) => copies.length ? (i - 1 + copies.length) % copies.length : 0);
+    } else if (key.downArrow) {
+      setSelected((i) => copies.length ? (i + 1) % copies.length : 0);
+    } else if (input === 'r') {
+      setScanId((n) => n + 1);
+    } else if (!current) {
+      return;
+    } else if (input === 'k') {
+      // Keep the selected copy, mark the rest of its set
+      onMark([{path: current.path, kb: current.set.kb}], false);
+      onMark(current.set.paths.filter((p) => p !== current.path).map((p) => ({path: p, kb: current.set.kb})), true);
+    } else if (input === ' ' || input === 'm') {
+      onMark([{path: current.path, kb: current.set.kb}], !marked.has(current.path));
+    }
+  });
+
+  if (!sets) {
+    return (
+      <Box marginTop={1}>
+        <Text color="yellow">
+          Finding duplicates ≥ {MIN_SIZE_MB}MB… {progress ? `${progress.phase} ${progress.processed}/${progress.total}` : ''}
+        </Text>
+      </Box>
+    );
+  }
+
+  const selectedLine = current ? lines.indexOf(current) : 0;
+  const offset = Math.max(0, Math.min(selectedLine - Math.floor(height / 2), lines.length - height));
+  const wasted = sets.reduce((sum, s) => sum + s.wastedKb, 0);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text>
+        <Text color="magenta" bold>Duplicates </Text>
+        <Text>{sets.length} sets · </Text>
+        <Text color="red">{humanFromKB(wasted)}</Text>
+        <Text> wasted</Text>
+        <Text dimColor>  (k: keep this copy, mark others • space/m: mark • r: rescan • Esc: back)</Text>
+      </Text>
+      {sets.length === 0 && <Text dimColor>(no duplicates)</Text>}
+      {lines.slice(offset, offset + height).map((l, i) => l.kind === 'set' ? (
+        <Text key={`s${offset + i}`} dimColor>
+          {l.set.paths.length} copies × {humanFromKB(l.set.kb)} · wasted {humanFromKB(l.set.wastedKb)}
+        </Text>
+      ) : (
+        <Box key={l.path}>
+          <Text color="magenta">{marked.has(l.path) ? '● ' : '  '}</Text>
+          <Text inverse={l === current}>{(l === current ? '▶ ' : '  ') + path.relative(root, l.path)}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
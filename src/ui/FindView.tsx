@@ -0,0 +1,86 @@
+import React, {useMemo, useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import path from 'node:path';
+import {humanFromKB} from '../utils.js';
+import {forestEntries, SizeForest} from '../tree.js';
+import {fuzzyMatch} from '../fuzzy.js';
+import Highlighted from './Highlighted.js';
+
+const MAX_RESULTS = 200;
+
+type Props = {
+  forest: SizeForest;
+  onJump: (p: string, file: boolean) => void;
+  onClose: () => void;
+  height: number; // lines available for the results
+};
+
+// Fuzzy search over every path in the cached size tree, not only the current
+// folder. Matches in the last path component rank first, then larger entries.
+export default function FindView({forest, onJump, onClose, height}: Props) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const entries = useMemo(() => forestEntries(forest), [forest]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return [];
+    const hits = [];
+    for (const e of entries) {
+      const m = fuzzyMatch(query, e.path);
+      if (!m) continue;
+      const nameStart = e.path.length - path.basename(e.path).length;
+      const inName = m.positions[0]! >= nameStart ? 10 : 0;
+      hits.push({...e, positions: m.positions, score: m.score + inName});
+    }
+    hits.sort((a, b) => b.score - a.score || b.kb - a.kb);
+    return hits.slice(0, MAX_RESULTS);
+  }, [entries, query]);
+  const current = results[Math.min(selected, results.length - 1)];
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onClose();
+    } else if (key.return) {
+      if (current) onJump(current.path, current.file);
+    } else if (key.upArrow) {
+      setSelected((i) => results.length ? (i - 1 + results.length) % results.length : 0);
+    } else if (key.downArrow) {
+      setSelected((i) => results.length ? (i + 1) % results.length : 0);
+    } else if (key.backspace || key.delete) {
+      setQuery((q) => q.slice(0, -1));
+      setSelected(0);
+    } else if (input && !key.ctrl && !key.meta) {
+      setQuery((q) => q + input);
+      setSelected(0);
+    }
+  });
+
+  const rows = Math.max(1, height - 2);
+  const selectedIdx = current ? results.indexOf(current) : 0;
+  const offset = Math.max(0, Math.min(selectedIdx - Math.floor(rows / 2), results.length - rows));
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text>
+        <Text color="magenta" bold>Find path </Text>
+        <Text>{entries.length} cached paths</Text>
+        <Text dimColor>  (type to search • Up/Down: select • Enter: go to • Esc: back)</Text>
+      </Text>
+      <Text>
+        <Text color="cyan">/</Text>
+        <Text>{query}</Text>
+        <Text inverse> </Text>
+        {query.trim() !== '' && <Text dimColor>  {results.length === MAX_RESULTS ? `${MAX_RESULTS}+` : results.length} matches</Text>}
+      </Text>
+      {query.trim() !== '' && results.length === 0 && <Text dimColor>(no matches)</Text>}
+      {results.slice(offset, offset + rows).map((r) => (
+        <Box key={r.path}>
+          <Text inverse={r === current}>{r === current ? '▶ ' : '  '}</Text>
+          <Text color="green">{humanFromKB(r.kb).padEnd(9)}</Text>
+          <Highlighted text={r.path} positions={r.positions}/>
+          {r.file && <Text dimColor> (file)</Text>}
+        </Box>
+      ))}
+    </Box>
+  );
+}
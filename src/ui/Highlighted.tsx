@@ -0,0 +1,20 @@
+import React from 'react';
+import {Text} from 'ink';
+
+// Renders `text` with the characters at `positions` (fuzzy match hits) highlighted.
+export default function Highlighted({text, positions}: {text: string; positions?: number[]}) {
+  if (!positions?.length) return <Text>{text}</Text>;
+  const hits = new Set(positions);
+  const runs: Array<{s: string; hit: boolean}> = [];
+  for (let i = 0; i < text.length; i++) {
+    const hit = hits.has(i);
+    const last = runs[runs.length - 1];
+    if (last && last.hit === hit) last.s += text[i];
+    else runs.push({s: text[i]!, hit});
+  }
+  return (
+    <Text>
+      {runs.map((r, i) => r.hit ? <Text key={i} color="yellow" bold underline>{r.s}</Text> : r.s)}
+    </Text>
+  );
+}
@@ -1,53 +1,70 @@
 import React, {useEffect, useMemo, useRef, useState} from 'react';
-import {Box, Text, useInput, useStdout} from 'ink';
+import {Box, Text, useApp, useInput, useStdout} from 'ink';
 import path from 'node:path';
 import fs from 'node:fs';
-import {spawn} from 'node:child_process';
-import {humanFromKB, SizeEntry} from '../utils.js';
-import {listDirsViaFind, runDuKb, Progress} from '../scanners.js';
-import {loadCacheFromDisk, saveCacheToDisk} from '../persist.js';
+import {AgeBucket, ageBucket, formatAge, formatCount, formatDate, humanFromKB, lastUsed, readMarker, SizeEntry} from '../utils.js';
+import {listDirsViaFind, Progress} from '../scanners.js';
+import {sizeDirectory} from '../walker.js';
+import {changedSinceScan, isExpired, loadCacheFromDisk, saveCacheToDisk, saveSnapshot} from '../persist.js';
+import {DiffSide, formatDeltaKb, resolveDiffSide} from '../diff.js';
+import {deleteMode, moveToTrash, purgeStaging, undoLast} from '../trash.js';
+import DupesView from './DupesView.js';
+import ArtifactsView from './ArtifactsView.js';
+import TypeBars from './TypeBars.js';
+import FindView from './FindView.js';
+import DeniedView from './DeniedView.js';
+import VolumesView from './VolumesView.js';
+import VolumeBar from './VolumeBar.js';
+import Highlighted from './Highlighted.js';
+import {fuzzyFilter, fuzzyMatch} from '../fuzzy.js';
+import {ARTIFACT_RULES} from '../artifacts.js';
+import {Config} from '../config.js';
+import {loadExcludes} from '../ignore.js';
+import {openInFileManager} from '../platform.js';
+import {listMounts, Mount, mountOf, mountsBelow, statVolume, Volume} from '../volumes.js';
+import {childEntries, deniedPaths, findNode, itemCounts, graftTree, isWithin, largestFiles, outermostPaths, pruneTree, SizeForest} from '../tree.js';
 
-type DirStatus = 'unscanned' | 'scanning' | 'scanned';
+type DirStatus = 'unscanned' | 'scanning' | 'scanned' | 'stale';
 
 type DirCacheEntry = {
   status: DirStatus;
   path: string;
   alphaDirs: string[]; // alphabetical immediate subdirs
-  dirs?: SizeEntry[]; // sized subdirs (topN)
-  files?: SizeEntry[]; // legacy; not used in UI
+  kb?: number; // total size of this folder
+  dirs?: SizeEntry[]; // sized subdirs (topN), from the size tree
+  files?: SizeEntry[]; // largest files here or in the subtree, from the size tree
+  fileCount?: number; // everything below this folder, from the size tree
+  dirCount?: number;
   lastScan?: number;
+  partial?: boolean; // sizes from a cancelled scan
+  unreadable?: number; // paths below that the scan could not read
+  measured?: SizeEntry[]; // subdirs the running scan has finished, in completion order
+  pending?: string[]; // subdirs it is still walking; resolved: the listed ones
+  mounts?: string[]; // resolved: mount points directly inside that the sizes leave out
   msg?: string;
 };
 
-const TOP_N = 30;
-const CONCURRENCY = 6;
+const DEFAULT_TOP_N = 30; // unless the config sets `top`
+const FILES_VISIBLE = 10;
+const TYPES_VISIBLE = 5;
+const LIVE_MS = 150; // batches live scan results into one re-render
+
+type Focus = 'dirs' | 'files';
+type FileScope = 'subtree' | 'here';
+type SortKey = 'size' | 'name' | 'count' | 'modified' | 'percent';
+
+const SORT_KEYS: SortKey[] = ['size', 'name', 'count', 'modified', 'percent'];
+const SORT_LABEL: Record<SortKey, string> = {size: 'size', name: 'name', count: 'item count', modified: 'last modified', percent: '% of parent'};
+
+// How a folder's rows are picked and ordered
+type ListOptions = {topN: number; fileScope?: FileScope; query?: string; sort?: SortKey; mountPoints?: string[]};
+type View = 'browse' | 'dupes' | 'artifacts' | 'find' | 'denied' | 'volumes';
 
 function basenameNoSlash(p: string) {
   const b = path.basename(p);
   return b || p; // handle root
 }
 
-async function measureDirs(dirs: string[], onProgress?: (p: Progress) => void): Promise<SizeEntry[]> {
-  const total = dirs.length;
-  onProgress?.({phase: 'measuring', processed: 0, total});
-  const results: SizeEntry[] = [];
-  let idx = 0;
-  async function worker() {
-    while (true) {
-      const i = idx++;
-      if (i >= total) break;
-      const d = dirs[i];
-      const kb = await runDuKb(d);
-      results.push({kb, path: d});
-      onProgress?.({phase: 'measuring', processed: results.length, total});
-    }
-  }
-  const workers = Array.from({length: Math.min(CONCURRENCY, Math.max(1, total))}, () => worker());
-  await Promise.all(workers);
-  results.sort((a, b) => b.kb - a.kb);
-  return results;
-}
-
 function Header({current, width}: {current: string; width: number}) {
   const hr = '─'.repeat(Math.max(20, Math.min(width, 100)));
   return (
@@ -78,112 +95,348 @@ function SectionTitle({children}: {children: React.ReactNode}) {
   );
 }
 
-function Rows({items, selectedIndex}: {items: Array<{label: string; right?: string; dim?: boolean}>, selectedIndex: number}) {
+type Row = {
+  label: string;
+  match?: number[];
+  right?: string;
+  dim?: boolean;
+  bar?: {ratio: number; color: string}; // 0..1 of the scale the bars use
+  pct?: string; // share of the current folder
+  counts?: string; // optional columns (i)
+  modified?: string;
+  age?: {text: string; color: string};
+  delta?: {text: string; color: string};
+  note?: string;
+  stale?: boolean;
+  warn?: {text: string; color: string}; // unreadable paths inside
+  mount?: string; // a mount point, or mount points inside
+  marked?: boolean;
+};
+
+type Cell = {text: string; color?: string; dim?: boolean};
+type Column = 'right' | 'bar' | 'pct' | 'warn' | 'mount' | 'counts' | 'modified' | 'age' | 'delta' | 'note' | 'stale';
+
+const COLUMNS: Column[] = ['right', 'bar', 'pct', 'warn', 'mount', 'counts', 'modified', 'age', 'delta', 'note', 'stale'];
+const DROP_ORDER: Column[] = ['note', 'age', 'modified', 'counts', 'stale', 'delta', 'bar', 'pct', 'mount', 'warn']; // first to go when narrow
+const MIN_LABEL = 16;
+
+// What a full bar stands for: the largest row of the list, or the current folder's total.
+type BarScale = 'largest' | 'parent';
+
+const EIGHTHS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉'];
+
+// Bar colour by absolute size, so a 20GB folder stands out whatever it is compared with.
+function sizeTierColor(kb: number): string {
+  if (kb >= 10 * 1024 ** 2) return 'red';
+  if (kb >= 1024 ** 2) return 'yellow';
+  if (kb >= 100 * 1024) return 'green';
+  return 'gray';
+}
+
+// Bars take about an eighth of the terminal, within limits.
+function barWidthFor(width: number): number {
+  return Math.max(6, Math.min(24, Math.floor(width / 8)));
+}
+
+function Bar({ratio, color, width}: {ratio: number; color: string; width: number}) {
+  const eighths = Math.round(Math.max(0, Math.min(1, ratio)) * width * 8);
+  const fill = '█'.repeat(Math.floor(eighths / 8)) + EIGHTHS[eighths % 8];
   return (
     <>
-      {items.map((it, i) => (
-        <Box key={i}>
-          <Text inverse={i === selectedIndex}>{(i === selectedIndex ? '▶ ' : '  ') + it.label}</Text>
-          {it.right && (
-            <>
-              <Text> </Text>
-              <Text color={it.dim ? 'gray' : 'green'}>{it.right}</Text>
-            </>
-          )}
-        </Box>
-      ))}
+      <Text color={color}>{fill}</Text>
+      <Text color="gray">{'░'.repeat(width - fill.length)}</Text>
     </>
   );
 }
 
-function getNavigableList(entry?: DirCacheEntry): Array<SizeEntry | string> {
+function cellOf(it: Row, col: Column): Cell | null {
+  switch (col) {
+    case 'right': return it.right ? {text: it.right, color: it.dim ? 'gray' : 'green'} : null;
+    case 'bar': return it.bar ? {text: '', color: it.bar.color} : null; // drawn by Bar
+    case 'pct': return it.pct ? {text: it.pct, dim: true} : null;
+    case 'counts': return it.counts ? {text: it.counts, dim: true} : null;
+    case 'modified': return it.modified ? {text: it.modified, dim: true} : null;
+    case 'age': return it.age ?? null;
+    case 'delta': return it.delta ?? null;
+    case 'note': return it.note ? {text: it.note, dim: true} : null;
+    case 'stale': return it.stale ? {text: 'stale', color: 'yellow'} : null;
+    case 'warn': return it.warn ?? null;
+    case 'mount': return it.mount ? {text: it.mount, color: 'cyan'} : null;
+  }
+}
+
+const AGE_COLOR: Record<AgeBucket, string> = {'<30d': 'gray', '<1y': 'white', '>1y': 'yellow'};
+
+type BatchItem = {path: string; kb: number; state: 'pending' | 'done' | 'failed'; error?: string};
+
+type DeletePrompt = {items: BatchItem[]; status: 'confirm' | 'working' | 'finished'};
+
+// Aligned columns that fit `width`: labels are truncated down to MIN_LABEL,
+// then whole columns are dropped in DROP_ORDER until the row fits.
+function Rows({items, selectedIndex, width}: {items: Row[], selectedIndex: number, width: number}) {
+  const barW = barWidthFor(width);
+  const colWidth = new Map<Column, number>();
+  for (const col of COLUMNS) {
+    const w = col === 'bar' ? (items.some((it) => it.bar) ? barW : 0) : Math.max(0, ...items.map((it) => cellOf(it, col)?.text.length ?? 0));
+    if (w) colWidth.set(col, w + 1);
+  }
+  const labelWidth = () => width - 4 - [...colWidth.values()].reduce((sum, w) => sum + w, 0);
+  for (const col of DROP_ORDER) {
+    if (labelWidth() >= MIN_LABEL) break;
+    colWidth.delete(col);
+  }
+  const longest = Math.max(0, ...items.map((it) => it.label.length));
+  const labelW = Math.max(MIN_LABEL, Math.min(longest, labelWidth()));
+  return (
+    <>
+      {items.map((it, i) => {
+        const label = it.label.length > labelW ? it.label.slice(0, labelW - 1) + '…' : it.label;
+        const match = it.match?.filter((pos) => pos < label.length - (label === it.label ? 0 : 1));
+        return (
+          <Box key={i}>
+            <Text color="magenta">{it.marked ? '● ' : '  '}</Text>
+            <Text inverse={i === selectedIndex}>
+              {i === selectedIndex ? '▶ ' : '  '}
+              <Highlighted text={label} positions={match}/>
+            </Text>
+            <Text>{' '.repeat(labelW - label.length)}</Text>
+            {COLUMNS.filter((col) => colWidth.has(col)).map((col) => {
+              if (col === 'bar') return <Text key={col}> {it.bar ? <Bar ratio={it.bar.ratio} color={it.bar.color} width={barW}/> : ' '.repeat(barW)}</Text>;
+              const cell = cellOf(it, col);
+              // Sizes and counts read best right-aligned
+              const text = !cell ? '' : col === 'right' || col === 'pct' ? cell.text.padStart(colWidth.get(col)! - 1) : cell.text.padEnd(colWidth.get(col)! - 1);
+              return <Text key={col} color={cell?.color} dimColor={cell?.dim}> {text}</Text>;
+            })}
+          </Box>
+        );
+      })}
+    </>
+  );
+}
+
+function sortDirs(dirs: SizeEntry[], sort: SortKey): SizeEntry[] {
+  const items = (e: SizeEntry) => (e.fileCount ?? 0) + (e.dirCount ?? 0);
+  switch (sort) {
+    case 'name': return [...dirs].sort((a, b) => basenameNoSlash(a.path).localeCompare(basenameNoSlash(b.path)));
+    case 'count': return [...dirs].sort((a, b) => items(b) - items(a));
+    case 'modified': return [...dirs].sort((a, b) => (b.modifiedAt ?? 0) - (a.modifiedAt ?? 0));
+    default: return dirs; // size and share of the parent order the same way
+  }
+}
+
+// Scan status lives in the session cache; sizes come from the persisted tree so
+// any descendant of a scanned folder can be shown without touching the disk.
+// Tree entries older than the cache TTL, whose folder changed on disk, or that
+// came from a cancelled scan are 'stale'.
+// A filter query narrows the folders to fuzzy matches among all children, not
+// only the top N; other sort orders reorder the rows that were picked.
+// While a scan runs, its results so far replace the cached rows.
+// Mount points directly inside that no walk measured are listed after the folders.
+function resolveEntry(p: string, cache: Map<string, DirCacheEntry>, forest: SizeForest | null, changed: Set<string>, {topN, fileScope = 'subtree', query = '', sort = 'size', mountPoints = []}: ListOptions): DirCacheEntry | undefined {
+  const base = cache.get(p);
+  const live = base?.status === 'scanning' && base.measured ? liveDirs(base, {topN, query, sort}) : null;
+  const hit = forest ? findNode(forest, p) : null;
+  const inside = mountPoints.filter((m) => path.dirname(m) === p);
+  const unmeasured = (walked: string[]) => {
+    const left = inside.filter((m) => !walked.includes(m));
+    return query ? fuzzyFilter(left, query, basenameNoSlash) : left;
+  };
+  const liveWalked = live ? [...base!.measured ?? [], ...base!.pending ?? []].map(itemPath) : [];
+  if (!hit) return base && live ? {...base, ...live, mounts: unmeasured(liveWalked)} : base;
+  const stale = isExpired(hit.scannedAt) || changed.has(p) || hit.partial;
+  return {
+    alphaDirs: [],
+    ...base,
+    status: base?.status === 'scanning' ? 'scanning' : stale ? 'stale' : 'scanned',
+    path: p,
+    kb: hit.node.kb,
+    dirs: live?.dirs ?? sortDirs(query ? fuzzyFilter(childEntries(p, hit.node), query, (d) => basenameNoSlash(d.path)) : childEntries(p, hit.node).slice(0, topN), sort),
+    pending: live?.pending,
+    mounts: unmeasured(live ? liveWalked : hit.node.children.map((c) => path.join(p, c.name))),
+    files: largestFiles(p, hit.node, topN, fileScope === 'subtree'),
+    lastScan: hit.scannedAt,
+    partial: hit.partial,
+    ...itemCounts(hit.node),
+    unreadable: hit.node.unreadable
+  };
+}
+
+// Measured subdirs ranked like finished ones, then the pending ones (no size yet).
+function liveDirs(base: DirCacheEntry, {topN, query = '', sort = 'size'}: ListOptions): Pick<DirCacheEntry, 'dirs' | 'pending'> {
+  const measured = [...base.measured ?? []].sort((a, b) => b.kb - a.kb);
+  const pending = base.pending ?? [];
+  return {
+    dirs: sortDirs(query ? fuzzyFilter(measured, query, (d) => basenameNoSlash(d.path)) : measured.slice(0, topN), sort),
+    pending: (query ? fuzzyFilter(pending, query, basenameNoSlash) : pending).slice(0, topN),
+  };
+}
+
+function itemPath(item: SizeEntry | string): string {
+  return typeof item === 'string' ? item : item.path;
+}
+
+function getNavigableList(entry?: DirCacheEntry, query = ''): Array<SizeEntry | string> {
   if (!entry) return [];
-  if (entry.dirs && entry.dirs.length > 0) {
-    return entry.dirs;
+  if (entry.dirs?.length || entry.pending?.length || entry.mounts?.length) {
+    return [...entry.dirs ?? [], ...entry.pending ?? [], ...entry.mounts ?? []];
   }
-  return entry.alphaDirs || [];
+  return query ? fuzzyFilter(entry.alphaDirs || [], query, basenameNoSlash) : entry.alphaDirs || [];
 }
 
-export default function Navigator() {
-  const startPath = useMemo(() => process.env.HOME || process.cwd(), []);
+export default function Navigator({config}: {config: Config}) {
+  const {exit} = useApp();
+  const startPath = useMemo(() => config.startPath || process.env.HOME || process.cwd(), [config]);
+  const topN = config.top ?? DEFAULT_TOP_N;
+  const artifactRules = useMemo(() => [...ARTIFACT_RULES, ...config.artifactRules], [config]);
   const [currentPath, setCurrentPath] = useState<string>(startPath);
   const [selectedIndex, setSelectedIndex] = useState<number>(0);
   const [cache, setCache] = useState<Map<string, DirCacheEntry>>(new Map());
+  const [forest, setForest] = useState<SizeForest | null>(null); // null until the disk cache is loaded
+  const forestRef = useRef<SizeForest>(new Map());
+  const [changedDirs, setChangedDirs] = useState<Set<string>>(new Set());
+  const [compareTo, setCompareTo] = useState<DiffSide | null>(null); // snapshot for the delta column
+  const [notice, setNotice] = useState<string | null>(null);
   const [progressDirs, setProgressDirs] = useState<Progress | null>(null);
   const [elapsedStart, setElapsedStart] = useState<number>(Date.now());
-  const [currentSizeKb, setCurrentSizeKb] = useState<number | null>(null);
-  const [deletePrompt, setDeletePrompt] = useState<{path: string; label: string; status: 'confirm' | 'working'; error?: string} | null>(null);
+  const [deletePrompt, setDeletePrompt] = useState<DeletePrompt | null>(null);
+  const [marked, setMarked] = useState<Map<string, number>>(new Map()); // path -> kb, across folders
+  const [focus, setFocus] = useState<Focus>('dirs');
+  const [fileIndex, setFileIndex] = useState(0);
+  const [fileScope, setFileScope] = useState<FileScope>('subtree');
+  const [view, setView] = useState<View>('browse');
+  const [showTypes, setShowTypes] = useState(false);
+  const [filter, setFilter] = useState<string | null>(null); // null: no filter; '' while the prompt is empty
+  const [filterEditing, setFilterEditing] = useState(false);
+  const [sort, setSort] = useState<SortKey>('size');
+  const [showColumns, setShowColumns] = useState(false); // counts, last modified
+  const [barScale, setBarScale] = useState<BarScale>('largest');
+  const [mounts, setMounts] = useState<Mount[]>([]);
+  const [disk, setDisk] = useState<Volume | null>(null); // the filesystem holding currentPath
+  const [crossMounts, setCrossMounts] = useState(config.crossMounts ?? false);
+  const mountPoints = useMemo(() => mounts.map((m) => m.mount), [mounts]);
   const {stdout} = useStdout();
   const termRows = stdout?.rows ?? 24;
-  const entry = cache.get(currentPath);
-  const navigableList = getNavigableList(entry);
+  const termCols = stdout?.columns || 80;
+  const [, setResizeTick] = useState(0);
+  const entry = resolveEntry(currentPath, cache, forest, changedDirs, {topN, fileScope, query: filter ?? '', sort, mountPoints});
+  const fileList = entry?.files ?? [];
+  const currentSizeKb = entry?.kb ?? null;
+  const navigableList = getNavigableList(entry, filter ?? '');
   const navigableLen = navigableList.length;
 
-  // Initialize entry, list alpha subdirs
+  // Load persisted size tree on boot
   useEffect(() => {
-    if (!cache.has(currentPath)) {
-      setCache((prev) => new Map(prev).set(currentPath, {
-        status: 'unscanned',
-        path: currentPath,
-        alphaDirs: [],
-        msg: 'Unscanned. Press Enter to scan.'
-      }));
-      (async () => {
-        try {
-          const alpha = await listDirsViaFind(currentPath);
-          setCache((prev) => {
-            const next = new Map(prev);
-            const entry = next.get(currentPath);
-            if (entry) entry.alphaDirs = alpha.sort((a,b)=>basenameNoSlash(a).localeCompare(basenameNoSlash(b)));
-            return next;
-          });
-        } catch {}
-      })();
-    }
-    // refresh current directory size asynchronously
     (async () => {
-      try {
-        setCurrentSizeKb(null);
-        const kb = await runDuKb(currentPath);
-        setCurrentSizeKb(kb);
-      } catch {
-        setCurrentSizeKb(null);
-      }
+      let disk: SizeForest = new Map();
+      try { disk = await loadCacheFromDisk(); } catch {}
+      forestRef.current = disk;
+      setForest(disk);
     })();
-  }, [currentPath]);
+  }, []);
+
+  // The mount table, for mount point markers and the filesystem of the current folder
+  useEffect(() => {
+    void listMounts().then(setMounts);
+  }, []);
+
+  useEffect(() => {
+    const m = mountOf(currentPath, mounts);
+    if (!m) return;
+    let cancelled = false;
+    void statVolume(m).then((v) => { if (!cancelled) setDisk(v); });
+    return () => { cancelled = true; };
+  }, [currentPath, mounts]);
+
+  // Rows are laid out for the terminal width, so lay them out again on resize
+  useEffect(() => {
+    if (!stdout) return;
+    const onResize = () => setResizeTick((n) => n + 1);
+    stdout.on('resize', onResize);
+    return () => { stdout.off('resize', onResize); };
+  }, [stdout]);
+
+  // Staged deletes past their retention window are removed for good
+  useEffect(() => {
+    void purgeStaging().catch(() => {});
+  }, []);
 
-  // Load persisted cache on boot
+  // Folders outside the size tree get an entry, an alphabetical listing and a scan
   useEffect(() => {
+    if (!forest) return; // wait for the disk cache
+    if (findNode(forest, currentPath)) return;
+    const known = cache.get(currentPath);
+    // Left while scanning: that walk was stopped, so start over
+    if (known && !(known.status === 'scanning' && scanPathRef.current !== currentPath)) return;
+    setCache((prev) => new Map(prev).set(currentPath, {
+      status: 'unscanned',
+      path: currentPath,
+      alphaDirs: [],
+      msg: 'Unscanned. Press r to scan.'
+    }));
+    const listing = new AbortController();
     (async () => {
       try {
-        const disk = await loadCacheFromDisk();
-        if (disk.size > 0) {
-          setCache(disk);
-        }
+        const alpha = await listDirsViaFind(currentPath, listing.signal);
+        if (listing.signal.aborted) return;
+        setCache((prev) => {
+          const next = new Map(prev);
+          const entry = next.get(currentPath);
+          if (entry) entry.alphaDirs = alpha.sort((a,b)=>basenameNoSlash(a).localeCompare(basenameNoSlash(b)));
+          return next;
+        });
       } catch {}
     })();
-  }, []);
+    setElapsedStart(Date.now());
+    void triggerScan(currentPath, false);
+    return () => listing.abort();
+  }, [currentPath, forest]);
 
-  // Auto-scan on first launch/start path only (or refresh if cached), once
-  const bootScannedRef = useRef(false);
+  // Compare the current folder and its rows against their walked mtimes
   useEffect(() => {
-    if (bootScannedRef.current) return;
-    const entry = cache.get(startPath);
-    if (!entry) return; // wait for initial entry/cache load
-    bootScannedRef.current = true;
-    setElapsedStart(Date.now());
-    void triggerScan(startPath, entry.status === 'scanned');
-  }, [cache, startPath]);
+    if (!forest) return;
+    const hit = findNode(forest, currentPath);
+    if (!hit) return;
+    const targets = [
+      {path: currentPath, node: hit.node},
+      ...hit.node.children.slice(0, topN).map((c) => ({path: path.join(currentPath, c.name), node: c}))
+    ];
+    let cancelled = false;
+    (async () => {
+      const changed = await changedSinceScan(targets);
+      if (cancelled) return;
+      setChangedDirs((prev) => {
+        const next = new Set(prev);
+        for (const t of targets) next.delete(t.path);
+        for (const p of changed) next.add(p);
+        return next;
+      });
+    })();
+    return () => { cancelled = true; };
+  }, [currentPath, forest]);
+
+  function commitForest(next: SizeForest) {
+    forestRef.current = next;
+    setForest(next);
+    void saveCacheToDisk(next).catch(() => {});
+  }
 
   // Prevent stale progress updates when scans overlap
   const scanSeqRef = useRef(0);
+  // Only one walk runs at a time: a new scan stops the previous one ('superseded'),
+  // x stops it but keeps what was measured ('cancelled')
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const scanPathRef = useRef<string | null>(null);
 
   async function triggerScan(p: string, force: boolean) {
     const mySeq = ++scanSeqRef.current;
+    scanAbortRef.current?.abort('superseded');
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    scanPathRef.current = p;
     setCache((prev) => {
       const next = new Map(prev);
-      const ent = next.get(p);
-      if (!ent) return prev;
+      const ent = next.get(p) ?? {status: 'unscanned', path: p, alphaDirs: []};
+      next.set(p, ent);
       if (ent.status === 'scanning') return prev;
       if (!force && ent.status === 'scanned') return prev;
       ent.status = 'scanning';
@@ -191,21 +444,63 @@ export default function Navigator() {
       return next;
     });
 
+    // Children appear in the list as their walks finish
+    const measured: SizeEntry[] = [];
+    const pending = new Set<string>();
+    let liveTimer: NodeJS.Timeout | undefined;
+    const publishLive = () => {
+      if (liveTimer) return;
+      liveTimer = setTimeout(() => {
+        liveTimer = undefined;
+        if (scanSeqRef.current !== mySeq) return; // stale
+        setCache((prev) => {
+          const next = new Map(prev);
+          const ent = next.get(p);
+          if (!ent || ent.status !== 'scanning') return prev;
+          ent.measured = [...measured];
+          ent.pending = [...pending];
+          return next;
+        });
+      }, LIVE_MS);
+    };
+
     try {
-      const entryBefore = cache.get(p);
-      const alpha = entryBefore?.alphaDirs?.length ? entryBefore.alphaDirs : await listDirsViaFind(p);
-      if (scanSeqRef.current !== mySeq) return; // stale
-      setProgressDirs({phase:'measuring', processed:0, total: alpha.length});
       let lastDirsTs = 0;
-      const dirSizes = await measureDirs(alpha, (prog) => {
-        if (scanSeqRef.current !== mySeq) return; // stale
-        const now = Date.now();
-        if (now - lastDirsTs > 150 || prog.processed === prog.total) {
-          setProgressDirs(prog);
-          lastDirsTs = now;
-        }
+      const exclude = await loadExcludes(p, config.excludes);
+      const sized = await sizeDirectory(p, {
+        concurrency: config.concurrency,
+        oneFileSystem: !crossMounts,
+        exclude,
+        signal: controller.signal,
+        onProgress: (prog) => {
+          if (scanSeqRef.current !== mySeq) return; // stale
+          const now = Date.now();
+          if (now - lastDirsTs > 150 || prog.processed === prog.total) {
+            setProgressDirs(prog);
+            lastDirsTs = now;
+          }
+        },
+        onListed: (paths) => {
+          for (const d of paths) pending.add(d);
+          publishLive();
+        },
+        onMeasured: (e) => {
+          pending.delete(e.path);
+          measured.push(e);
+          publishLive();
+        },
       });
 
+      if (sized.partial && controller.signal.reason !== 'cancelled') {
+        // Stopped by a newer scan or by quitting: forget it so a revisit scans again
+        setCache((prev) => {
+          if (prev.get(p)?.status !== 'scanning' || scanPathRef.current === p) return prev;
+          const next = new Map(prev);
+          next.delete(p);
+          return next;
+        });
+        return;
+      }
       if (scanSeqRef.current !== mySeq) return; // stale
       setCache((prev) => {
         const next = new Map(prev);
@@ -213,16 +508,21 @@ export default function Navigator() {
         if (ent) {
           ent.status = 'scanned';
           ent.msg = undefined;
-          ent.dirs = dirSizes.slice(0, TOP_N);
-          ent.files = [];
-          ent.lastScan = Date.now();
+          ent.measured = ent.pending = undefined;
         }
         return next;
       });
-      // Persist to disk after successful scan
-      try { await saveCacheToDisk(p, {dirs: dirSizes.slice(0, TOP_N), files: [], lastScan: Date.now()}); } catch {}
-      // update displayed size after scan completes
-      try { const kb = await runDuKb(p); if (scanSeqRef.current === mySeq) setCurrentSizeKb(kb); } catch {}
+      if (sized.partial) {
+        // Cancelled: keep what was measured, unless a complete earlier scan is better
+        const prior = findNode(forestRef.current, p);
+        if (prior && !prior.partial) {
+          setNotice('Scan cancelled — kept the previous results');
+          return;
+        }
+        setNotice('Scan cancelled — sizes are partial');
+      }
+      // Graft into the size tree and persist it
+      commitForest(graftTree(forestRef.current, p, sized.partial ? {...sized.tree, partial: true} : sized.tree, Date.now()));
     } catch (e:any) {
       setCache((prev) => {
         const next = new Map(prev);
@@ -230,12 +530,16 @@ export default function Navigator() {
         if (ent) {
           ent.status = 'unscanned';
           ent.msg = `Scan failed: ${e?.message || e}`;
+          ent.measured = ent.pending = undefined;
         }
         return next;
       });
     } finally {
+      clearTimeout(liveTimer);
       if (scanSeqRef.current === mySeq) {
         setProgressDirs(null);
+        scanAbortRef.current = null;
+        scanPathRef.current = null;
       }
     }
   }
@@ -250,38 +554,88 @@ export default function Navigator() {
     return currentOffset;
   }
 
-  async function confirmDelete(targetPath: string) {
-    setDeletePrompt((prev) => prev ? {...prev, status: 'working', error: undefined} : prev);
-    try {
-      await fs.promises.rm(targetPath, {recursive: true, force: true});
-      setDeletePrompt(null);
-      setCache((prev) => {
-        const next = new Map(prev);
-        next.delete(targetPath);
-        const parent = path.dirname(targetPath);
-        const parentEntry = next.get(parent);
-        if (parentEntry) {
-          parentEntry.alphaDirs = parentEntry.alphaDirs.filter((d) => d !== targetPath);
-          if (parentEntry.dirs) parentEntry.dirs = parentEntry.dirs.filter((d) => d.path !== targetPath);
-        }
-        return next;
-      });
-      if (currentPath === targetPath) {
-        // If the deleted target is the current directory, go up a level
-        const parent = path.dirname(targetPath);
-        if (parent && parent !== targetPath) {
-          setCurrentPath(parent);
-          setSelectedIndex(0);
-          setViewOffset(0);
-        }
+  // Moves every item of the prompt to the trash as one undoable batch, then
+  // rescans each affected parent once.
+  async function confirmDelete(items: BatchItem[]) {
+    const batch = `b${Date.now().toString(36)}`;
+    setDeletePrompt((prev) => prev ? {...prev, status: 'working'} : prev);
+    const done: string[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const target = items[i]!.path;
+      let update: Partial<BatchItem>;
+      try {
+        await moveToTrash(target, {batch});
+        done.push(target);
+        update = {state: 'done'};
+      } catch (err: any) {
+        update = {state: 'failed', error: err?.message || String(err)};
       }
+      setDeletePrompt((prev) => prev ? {...prev, items: prev.items.map((it, j) => j === i ? {...it, ...update} : it)} : prev);
+    }
+
+    let forestNext = forestRef.current;
+    for (const p of done) forestNext = pruneTree(forestNext, p);
+    commitForest(forestNext);
+    setCache((prev) => {
+      const next = new Map(prev);
+      for (const p of done) {
+        next.delete(p);
+        const parentEntry = next.get(path.dirname(p));
+        if (parentEntry) parentEntry.alphaDirs = parentEntry.alphaDirs.filter((d) => d !== p);
+      }
+      return next;
+    });
+    setMarked((prev) => {
+      const next = new Map(prev);
+      for (const p of done) next.delete(p);
+      return next;
+    });
+
+    // If the current directory went away, go up to the deleted folder's parent
+    const gone = done.find((p) => isWithin(p, currentPath));
+    if (gone) {
+      setCurrentPath(path.dirname(gone));
+      setSelectedIndex(0);
+      setViewOffset(0);
+    }
+    const failed = items.length - done.length;
+    const where = deleteMode() === 'staging' ? 'staging' : 'Trash';
+    if (failed === 0) {
+      setDeletePrompt(null);
+      setNotice(`Moved ${done.length} item${done.length === 1 ? '' : 's'} to ${where} (u to undo)`);
+    } else {
+      setDeletePrompt((prev) => prev ? {...prev, status: 'finished'} : prev);
+      setNotice(`Moved ${done.length} of ${items.length} items to ${where}; ${failed} failed`);
+    }
+    for (const parent of outermostPaths([...new Set(done.map((p) => path.dirname(p)))])) {
       setElapsedStart(Date.now());
-      void triggerScan(currentPath === targetPath ? path.dirname(targetPath) : currentPath, true);
-    } catch (err: any) {
-      setDeletePrompt((prev) => prev ? {...prev, status: 'confirm', error: err?.message || String(err)} : prev);
+      await triggerScan(parent, true);
     }
   }
 
+  useEffect(() => {
+    setFileIndex(0);
+    setFocus('dirs');
+    setFilter(null);
+    setFilterEditing(false);
+  }, [currentPath]);
+
+  function clearFilter() {
+    setFilter(null);
+    setFilterEditing(false);
+    setSelectedIndex(0);
+    setViewOffset(0);
+  }
+
+  function moveSelection(step: number) {
+    const len = navigableLen;
+    setSelectedIndex((i) => {
+      const next = len ? (i + step + len) % len : 0;
+      setViewOffset((off) => adjustViewport(len, next, off, computeFolderViewportSize()));
+      return next;
+    });
+  }
+
   useEffect(() => {
     setSelectedIndex((idx) => {
       if (navigableLen === 0) return 0;
@@ -289,17 +643,55 @@ export default function Navigator() {
     });
   }, [navigableLen]);
 
+  // Rows re-sort as live results arrive: keep the selected folder selected, not its index
+  const selectedPathRef = useRef<string | null>(null);
+  const listKeyRef = useRef('');
+  const navigableKey = navigableList.map(itemPath).join('\n');
+  useEffect(() => {
+    if (navigableKey !== listKeyRef.current) {
+      listKeyRef.current = navigableKey;
+      const idx = selectedPathRef.current ? navigableList.findIndex((v) => itemPath(v) === selectedPathRef.current) : -1;
+      if (idx >= 0 && idx !== selectedIndex) {
+        setSelectedIndex(idx);
+        setViewOffset((off) => adjustViewport(navigableLen, idx, off, computeFolderViewportSize()));
+        return;
+      }
+    }
+    const sel = navigableList[Math.min(selectedIndex, navigableLen - 1)];
+    selectedPathRef.current = sel === undefined ? null : itemPath(sel);
+  }, [navigableKey, selectedIndex]);
+
   // Navigation input
   useInput((input, key) => {
     if (deletePrompt) {
-      if (key.escape || input === 'n') {
+      if (deletePrompt.status === 'working') return;
+      if (deletePrompt.status === 'finished' || key.escape || input === 'n') {
         setDeletePrompt(null);
         return;
       }
       if ((input && input.toLowerCase() === 'y') || key.return) {
-        if (deletePrompt.status !== 'working') {
-          void confirmDelete(deletePrompt.path);
-        }
+        void confirmDelete(deletePrompt.items);
+      }
+      return;
+    }
+
+    // Filter prompt: typing narrows the folder list live
+    if (filterEditing) {
+      if (key.escape) {
+        clearFilter();
+      } else if (key.return) {
+        if (filter) setFilterEditing(false);
+        else clearFilter();
+      } else if (key.upArrow || key.downArrow) {
+        moveSelection(key.upArrow ? -1 : 1);
+      } else if (key.backspace || key.delete) {
+        setFilter((q) => (q ?? '').slice(0, -1));
+        setSelectedIndex(0);
+        setViewOffset(0);
+      } else if (input && !key.ctrl && !key.meta && !key.tab) {
+        setFilter((q) => (q ?? '') + input);
+        setSelectedIndex(0);
+        setViewOffset(0);
       }
       return;
     }
@@ -308,22 +700,50 @@ export default function Navigator() {
     const len = navigableLen;
     const normalizedIndex = len ? Math.min(selectedIndex, len - 1) : 0;
 
+    // The row actions (mark, delete, open) apply to, from whichever section has focus
+    function selectedItem(): {path: string; kb: number} | null {
+      if (focus === 'files') {
+        const f = fileList[Math.min(fileIndex, fileList.length - 1)];
+        return f ? {path: f.path, kb: f.kb} : null;
+      }
+      const sel = len ? list[normalizedIndex] : undefined;
+      if (sel === undefined) return null;
+      if (typeof sel !== 'string') return {path: sel.path, kb: sel.kb};
+      return {path: sel, kb: (forest && findNode(forest, sel)?.node.kb) ?? 0};
+    }
+
+    if (key.escape && filter != null) {
+      clearFilter();
+      return;
+    }
+
     if (key.escape || input === 'q') {
-      process.exit(0);
+      // Stop the walk and any find children, then let Ink restore the terminal
+      scanAbortRef.current?.abort('quit');
+      exit();
+      setTimeout(() => process.exit(0), 500).unref();
+      return;
     }
 
-    if (key.upArrow) {
-      setSelectedIndex((i) => {
-        const next = len ? (i - 1 + len) % len : 0;
-        setViewOffset((off) => adjustViewport(len, next, off, computeFolderViewportSize()));
-        return next;
-      });
+    if (input === '/') {
+      setFocus('dirs');
+      setFilter((q) => q ?? '');
+      setFilterEditing(true);
+    } else if (filter && (input === 'n' || input === 'N')) {
+      // Every listed folder matches, so cycling matches walks the narrowed list
+      setFocus('dirs');
+      moveSelection(input === 'n' ? 1 : -1);
+    } else if (input === 'F') {
+      setView('find');
+    } else if (key.tab) {
+      setFocus((f) => f === 'dirs' && fileList.length > 0 ? 'files' : 'dirs');
+    } else if (focus === 'files' && (key.upArrow || key.downArrow)) {
+      const n = fileList.length;
+      setFileIndex((i) => n ? (i + (key.upArrow ? -1 : 1) + n) % n : 0);
+    } else if (key.upArrow) {
+      moveSelection(-1);
     } else if (key.downArrow) {
-      setSelectedIndex((i) => {
-        const next = len ? (i + 1) % len : 0;
-        setViewOffset((off) => adjustViewport(len, next, off, computeFolderViewportSize()));
-        return next;
-      });
+      moveSelection(1);
     } else if (key.leftArrow || input === 'b') {
       const parent = path.dirname(currentPath);
       if (parent && parent !== currentPath) {
@@ -331,88 +751,258 @@ export default function Navigator() {
         setCurrentPath(parent);
         setSelectedIndex(0);
         setViewOffset(0);
-        setElapsedStart(Date.now());
-        // Auto refresh parent on navigate
-        void triggerScan(parent, true);
         // try to highlight the child we came from
-        setTimeout(() => {
-          const pe = cache.get(parent);
-          const arr = getNavigableList(pe);
-          if (arr && arr.length) {
-            const idx = arr.findIndex((v:any) => (typeof v === 'string' ? v : v.path) === cameFrom);
-            if (idx >= 0) setSelectedIndex(idx);
-          }
-        }, 0);
+        const arr = getNavigableList(resolveEntry(parent, cache, forest, changedDirs, {topN, sort, mountPoints}));
+        const idx = arr.findIndex((v) => (typeof v === 'string' ? v : v.path) === cameFrom);
+        if (idx >= 0) {
+          setSelectedIndex(idx);
+          setViewOffset(Math.max(0, idx - computeFolderViewportSize() + 1));
+        }
       }
-    } else if (key.rightArrow || key.return || input === ' ') {
+    } else if (key.rightArrow || key.return) {
       // Enter selected directory
-      if (!len) return;
+      if (!len || focus === 'files') return;
       const sel = list[normalizedIndex];
       const nextPath = typeof sel === 'string' ? sel : (sel as SizeEntry).path;
       setCurrentPath(nextPath);
       setSelectedIndex(0);
       setViewOffset(0);
-      setElapsedStart(Date.now());
-      if (!cache.has(nextPath)) {
-        setCache((prev) => new Map(prev).set(nextPath, {status:'unscanned', path: nextPath, alphaDirs:[], msg:'Unscanned. Press Enter to scan.'}));
-        (async ()=>{
-          try { const alpha = await listDirsViaFind(nextPath);
-            setCache((prev)=>{const next=new Map(prev); const e=next.get(nextPath); if(e) e.alphaDirs=alpha.sort((a,b)=>basenameNoSlash(a).localeCompare(basenameNoSlash(b))); return next;});
-          } catch {}
-        })();
-      }
-      // Auto refresh on navigate into directory
-      void triggerScan(nextPath, true);
+    } else if (input === 'x') {
+      if (scanAbortRef.current) scanAbortRef.current.abort('cancelled');
+      else setNotice('No scan running');
     } else if (input === 'r') {
-      // Rescan
+      // Rescan: the only action that walks an already-known folder again
+      setElapsedStart(Date.now());
       void triggerScan(currentPath, true);
+    } else if (input === ' ' || input === 'm') {
+      // Toggle mark on the selected row
+      const sel = selectedItem();
+      if (!sel) return;
+      setMarked((prev) => {
+        const next = new Map(prev);
+        if (next.has(sel.path)) next.delete(sel.path);
+        else next.set(sel.path, sel.kb);
+        return next;
+      });
+    } else if (input === 'f') {
+      setFileScope((sc) => sc === 'subtree' ? 'here' : 'subtree');
+      setFileIndex(0);
+    } else if (input === 'M') {
+      setMarked(new Map());
+    } else if (input === 'D') {
+      setView('dupes');
+    } else if (input === 'A') {
+      setView('artifacts');
+    } else if (input === 'E') {
+      if (entry?.unreadable) setView('denied');
+      else setNotice('Every path below this folder was read');
+    } else if (input === 'V') {
+      setView('volumes');
+    } else if (input === 'X') {
+      setCrossMounts((v) => !v);
+      setNotice(crossMounts ? 'Scans stay on one filesystem — r to rescan' : 'Scans now cross into mounted filesystems — r to rescan');
+    } else if (input === 'T') {
+      setShowTypes((v) => !v);
+    } else if (input === 'S') {
+      setSort((k) => SORT_KEYS[(SORT_KEYS.indexOf(k) + 1) % SORT_KEYS.length]!);
+      setSelectedIndex(0);
+      setViewOffset(0);
+    } else if (input === 'i') {
+      setShowColumns((v) => !v);
+    } else if (input === 'B') {
+      setBarScale((v) => v === 'largest' ? 'parent' : 'largest');
+      setNotice(barScale === 'largest' ? 'Bars show each row\'s share of this folder' : 'Bars are scaled to the largest row');
     } else if (input === 'd') {
-      if (!len || !list[normalizedIndex]) return;
-      const sel = list[normalizedIndex];
-      const targetPath = typeof sel === 'string' ? sel : (sel as SizeEntry).path;
-      const label = basenameNoSlash(targetPath);
-      setDeletePrompt({path: targetPath, label, status: 'confirm'});
+      // Batch delete of all marked rows, or just the selected one
+      if (marked.size > 0) {
+        const items = outermostPaths([...marked.keys()]).map((p) => ({path: p, kb: marked.get(p) ?? 0, state: 'pending' as const}));
+        setDeletePrompt({items, status: 'confirm'});
+        return;
+      }
+      const sel = selectedItem();
+      if (!sel) return;
+      setDeletePrompt({items: [{path: sel.path, kb: sel.kb, state: 'pending'}], status: 'confirm'});
     } else if (input === 'o') {
-      // Open in Finder
+      // Open in Finder / the file manager
       try {
         // Open selected item if available; fall back to currentPath
         let openPath = currentPath;
-        if (len) {
-          const sel = list[normalizedIndex];
-          openPath = typeof sel === 'string' ? sel : (sel as SizeEntry).path;
-          // If it somehow points to a file, open its parent
+        const sel = selectedItem();
+        if (sel) {
+          openPath = sel.path;
+          // Files open their containing folder
           try { const st = fs.statSync(openPath); if (st.isFile()) openPath = path.dirname(openPath); } catch {}
         }
-        spawn('open', [openPath], {stdio:'ignore', detached:true}).unref();
+        openInFileManager(openPath);
       } catch {}
+    } else if (input === 'u') {
+      void (async () => {
+        try {
+          const {restored: recs, failed} = await undoLast();
+          if (recs.length === 0 && failed.length === 0) {
+            setNotice('Nothing to undo');
+            return;
+          }
+          const done = recs.length === 1 ? `Restored ${recs[0]!.original}` : `Restored ${recs.length} items`;
+          if (!failed.length) setNotice(done);
+          else setNotice(`${recs.length ? `${done}; ` : ''}${failed.length} not restored: ${failed[0]!.error}`);
+          for (const parent of outermostPaths([...new Set(recs.map((r) => path.dirname(r.original)))])) {
+            setElapsedStart(Date.now());
+            await triggerScan(parent, true);
+          }
+        } catch (e: any) {
+          setNotice(`Undo failed: ${e?.message || e}`);
+        }
+      })();
+    } else if (input === 's') {
+      void (async () => {
+        try {
+          const snap = await saveSnapshot(forestRef.current);
+          setNotice(`Snapshot saved: ${snap.id}`);
+        } catch (e: any) {
+          setNotice(`Snapshot failed: ${e?.message || e}`);
+        }
+      })();
+    } else if (input === 'c') {
+      // Toggle the +/- column against the latest snapshot
+      if (compareTo) {
+        setCompareTo(null);
+        setNotice(null);
+        return;
+      }
+      void (async () => {
+        try {
+          const side = await resolveDiffSide('latest');
+          setCompareTo(side);
+          setNotice(`Comparing with ${side.label}`);
+        } catch (e: any) {
+          setNotice(e?.message || String(e));
+        }
+      })();
     } else if (input === 'g') {
-      setSelectedIndex(0);
+      if (focus === 'files') setFileIndex(0);
+      else setSelectedIndex(0);
     } else if (input === 'G') {
-      setSelectedIndex(Math.max(0, len - 1));
+      if (focus === 'files') setFileIndex(Math.max(0, fileList.length - 1));
+      else setSelectedIndex(Math.max(0, len - 1));
     }
-  });
+  }, {isActive: view === 'browse'});
+
+  function setMarks(entries: Array<{path: string; kb: number}>, mark: boolean) {
+    setMarked((prev) => {
+      const next = new Map(prev);
+      for (const e of entries) {
+        if (mark) next.set(e.path, e.kb);
+        else next.delete(e.path);
+      }
+      return next;
+    });
+  }
 
   const elapsedSec = ((Date.now() - elapsedStart) / 1000).toFixed(1);
 
-  const folderRowsAll = ((): Array<{label: string; right?: string; dim?: boolean}> => {
+  // A row's bar and share of the current folder. Folders and files are each
+  // scaled to their own largest row.
+  function sizeColumns(kb: number, largestKb: number): Pick<Row, 'bar' | 'pct'> {
+    const parentKb = currentSizeKb ?? 0;
+    const scaleKb = barScale === 'parent' ? parentKb : largestKb;
+    return {
+      bar: scaleKb > 0 ? {ratio: kb / scaleKb, color: sizeTierColor(kb)} : undefined,
+      pct: parentKb > 0 ? `${((kb / parentKb) * 100).toFixed(1)}%` : undefined,
+    };
+  }
+
+  const folderRowsAll = ((): Row[] => {
     if (!entry) return [];
     // Show cached results even while scanning
-    return (entry.dirs || []).map((d) => ({
-      label: basenameNoSlash(d.path),
-      right: humanFromKB(d.kb)
+    const now = Date.now();
+    const largestKb = Math.max(0, ...(entry.dirs || []).map((d) => d.kb));
+    return (entry.dirs || []).map((d): Row => {
+      const scannedAt = (forest && findNode(forest, d.path)?.scannedAt) || entry.lastScan || now;
+      const before = compareTo ? findNode(compareTo.forest, d.path) : null;
+      const delta = !compareTo ? undefined
+        : !before ? {text: 'new', color: 'red'}
+        : d.kb === before.node.kb ? {text: '±0', color: 'gray'}
+        : {text: formatDeltaKb(d.kb - before.node.kb), color: d.kb > before.node.kb ? 'red' : 'green'};
+      // Newest file write or read anywhere below the folder
+      const used = lastUsed(d);
+      const age = used == null ? undefined : {text: `idle ${formatAge(now - used)}`, color: AGE_COLOR[ageBucket(now - used)]};
+      const label = basenameNoSlash(d.path);
+      return {
+        label,
+        match: filter ? fuzzyMatch(filter, label)?.positions : undefined,
+        right: humanFromKB(d.kb),
+        ...sizeColumns(d.kb, largestKb),
+        counts: showColumns ? `${formatCount(d.fileCount ?? 0)} file${d.fileCount === 1 ? '' : 's'} ${formatCount(d.dirCount ?? 0)} dir${d.dirCount === 1 ? '' : 's'}` : undefined,
+        modified: showColumns && d.modifiedAt ? formatDate(d.modifiedAt) : undefined,
+        age,
+        delta,
+        marked: marked.has(d.path),
+        note: `scanned ${formatAge(now - scannedAt)} ago`,
+        stale: isExpired(scannedAt, now) || changedDirs.has(d.path),
+        warn: readMarker(d) ? {text: readMarker(d)!, color: d.status === 'error' ? 'red' : 'yellow'} : undefined,
+        mount: mountMarker(d.path)
+      };
+    }).concat((entry.pending || []).map((p): Row => {
+      const label = basenameNoSlash(p);
+      return {
+        label,
+        match: filter ? fuzzyMatch(filter, label)?.positions : undefined,
+        right: 'measuring…',
+        dim: true,
+        marked: marked.has(p)
+      };
+    })).concat((entry.mounts || []).map((p): Row => {
+      const label = basenameNoSlash(p);
+      return {
+        label,
+        match: filter ? fuzzyMatch(filter, label)?.positions : undefined,
+        right: 'not counted',
+        dim: true,
+        mount: '⛁ mount',
+        note: crossMounts ? 'r: rescan to include' : 'X: cross mounts',
+        marked: marked.has(p)
+      };
     }));
   })();
 
+  // Mount points, and folders with mounts below them whose sizes may leave those out
+  function mountMarker(p: string): string | undefined {
+    if (mountPoints.includes(p)) return '⛁ mount';
+    const below = mountsBelow(p, mounts).length;
+    return below ? `⛁ ${below} mount${below === 1 ? '' : 's'} inside` : undefined;
+  }
+
+  const SELECTION_PREVIEW = 3;
+  const markedPaths = outermostPaths([...marked.keys()]);
+  const markedKb = markedPaths.reduce((sum, p) => sum + (marked.get(p) ?? 0), 0);
+  const selectionLines = marked.size ? 2 + Math.min(SELECTION_PREVIEW, markedPaths.length) + (markedPaths.length > SELECTION_PREVIEW ? 1 : 0) : 0;
+
+  // KB per file type below the current folder, from the last scan that covered it
+  const currentTypes = showTypes && forest ? findNode(forest, currentPath)?.node.types : undefined;
+
   function computeFolderViewportSize(): number {
     // Reserve lines: header(1) + help(1) + optional msg(1) + optional progress(1) + section headers(2) + files section header(1) + files rows
-    const msgLines = entry?.msg ? 1 : 0;
+    const msgLines = (entry?.msg || entry?.status === 'stale' ? 1 : 0) + (notice ? 1 : 0) + (entry?.unreadable ? 1 : 0) + selectionLines;
     const progLines = entry?.status === 'scanning' ? 2 : 0;
-    const filesVisible = Math.min((entry?.files?.length ?? 0), 10); // cap visible files to 10 to avoid overflow
-    const reserved = 1 + 1 + msgLines + progLines + 1 + 1 + filesVisible + 1; // +1 bottom padding
+    const typeLines = showTypes ? 2 + Math.min(Object.keys(currentTypes ?? {}).length || 1, TYPES_VISIBLE) : 0;
+    const filesVisible = Math.min((entry?.files?.length ?? 0), FILES_VISIBLE); // cap visible files to avoid overflow
+    const filterLines = filter != null ? 1 : 0;
+    const reserved = 1 + 1 + msgLines + progLines + typeLines + filterLines + 1 + 1 + filesVisible + 1; // +1 bottom padding
     const view = Math.max(5, termRows - reserved);
     return view;
   }
 
+  const largestFileKb = Math.max(0, ...fileList.map((f) => f.kb));
+  const fileRowsAll: Row[] = fileList.map((f) => ({
+    label: path.relative(currentPath, f.path),
+    right: humanFromKB(f.kb),
+    ...sizeColumns(f.kb, largestFileKb),
+    marked: marked.has(f.path)
+  }));
+  const fileOffset = Math.max(0, Math.min(fileIndex, fileRowsAll.length - 1) - FILES_VISIBLE + 1);
+  const fileRows = fileRowsAll.slice(fileOffset, fileOffset + FILES_VISIBLE);
+
   const folderViewSize = computeFolderViewportSize();
   const totalFolderRows = folderRowsAll.length;
   const safeOffset = Math.min(viewOffset, Math.max(0, totalFolderRows - folderViewSize));
@@ -428,7 +1018,7 @@ export default function Navigator() {
   }, [entry?.status]);
 
   function renderBarColored(processed: number, total: number) {
-    const cols = stdout?.columns ?? 80;
+    const cols = termCols;
     const width = Math.max(10, Math.min(24, cols - 48));
     const pct = total > 0 ? Math.min(1, processed / total) : 0;
     const filled = Math.floor(pct * width);
@@ -445,18 +1035,49 @@ export default function Navigator() {
 
   return (
     <Box flexDirection="column">
-      <Header current={currentPath} width={stdout?.columns ?? 80} />
+      <Header current={currentPath} width={termCols} />
       <Box>
         <Text color="gray">Size:</Text>
         <Text> {currentSizeKb == null ? '—' : humanFromKB(currentSizeKb)}</Text>
+        {showColumns && entry?.fileCount != null && <Text dimColor> · {formatCount(entry.fileCount)} files, {formatCount(entry.dirCount ?? 0)} folders</Text>}
+        {entry?.lastScan != null && <Text dimColor> · scanned {formatAge(Date.now() - entry.lastScan)} ago</Text>}
+        {disk && (
+          <>
+            <Text color="gray">  Disk: </Text>
+            <VolumeBar percent={disk.usedPercent} width={10}/>
+            <Text> · {humanFromKB(disk.freeBytes / 1024)} free of {humanFromKB(disk.totalBytes / 1024)}</Text>
+            <Text dimColor> ({disk.mount})</Text>
+          </>
+        )}
       </Box>
       <Box>
-        <Text dimColor>Up/Down: select • Right: enter • Left: up • Enter: scan • r: rescan • d: delete • q: quit</Text>
+        <Text dimColor>Up/Down: select • Right/Enter: enter • Left: up • r: scan/rescan • x: cancel scan • space/m: mark • D: duplicates • A: artifacts • T: types • E: unreadable • V: volumes • X: cross mounts • /: filter • F: find path • S: sort • B: bar scale • i: columns • d: delete • u: undo • s: snapshot • c: compare • q: quit</Text>
       </Box>
+      {notice && (
+        <Box>
+          <Text color="cyan">{notice}</Text>
+        </Box>
+      )}
+
+      {!!entry?.unreadable && (
+        <Box>
+          <Text color="yellow">
+            ⚠ {formatCount(entry.unreadable)} path{entry.unreadable === 1 ? '' : 's'} below here could not be read{entry.status === 'scanning' ? ' in the last scan' : ''}; sizes leave them out. E: list them
+          </Text>
+        </Box>
+      )}
 
       {entry?.status === 'unscanned' && (
         <Box>
-          <Text color="yellow">Unscanned. Press Enter to scan.</Text>
+          <Text color="yellow">Unscanned. Press r to scan.</Text>
+        </Box>
+      )}
+
+      {entry?.status === 'stale' && (
+        <Box>
+          <Text color="yellow">
+            {entry.partial ? 'Partial sizes from a cancelled scan.' : changedDirs.has(currentPath) ? 'Folder changed since the last scan.' : 'Cached sizes are older than the cache TTL.'} Press r to rescan.
+          </Text>
         </Box>
       )}
 
@@ -497,43 +1118,165 @@ export default function Navigator() {
         </Box>
       )}
 
-      {entry && (
+      {marked.size > 0 && (
+        <Box marginTop={1} flexDirection="column">
+          <Text>
+            <Text color="magenta" bold>Selection: </Text>
+            <Text>{markedPaths.length} item{markedPaths.length === 1 ? '' : 's'} · </Text>
+            <Text color="green">{humanFromKB(markedKb)}</Text>
+            <Text> reclaimable</Text>
+            <Text dimColor>  (d: move all to Trash • M: clear)</Text>
+          </Text>
+          {markedPaths.slice(0, SELECTION_PREVIEW).map((p) => (
+            <Text key={p} dimColor>  {p}</Text>
+          ))}
+          {markedPaths.length > SELECTION_PREVIEW && (
+            <Text dimColor>  … and {markedPaths.length - SELECTION_PREVIEW} more</Text>
+          )}
+        </Box>
+      )}
+
+      {view === 'dupes' && (
+        <DupesView
+          root={currentPath}
+          excludes={config.excludes}
+          marked={marked}
+          onMark={setMarks}
+          onClose={() => setView('browse')}
+          height={Math.max(5, termRows - 8 - selectionLines)}
+        />
+      )}
+
+      {view === 'artifacts' && (
+        <ArtifactsView
+          root={currentPath}
+          rules={artifactRules}
+          excludes={config.excludes}
+          marked={marked}
+          onMark={setMarks}
+          onClose={() => setView('browse')}
+          height={Math.max(5, termRows - 8 - selectionLines)}
+        />
+      )}
+
+      {view === 'browse' && entry && showTypes && (
+        <>
+          <SectionTitle>
+            File types
+            <Text dimColor italic> T: hide</Text>
+          </SectionTitle>
+          {currentTypes ? <TypeBars types={currentTypes} limit={TYPES_VISIBLE}/> : <Text dimColor>(not in the last scan — press r to rescan)</Text>}
+        </>
+      )}
+
+      {view === 'find' && forest && (
+        <FindView
+          forest={forest}
+          onJump={(p, file) => {
+            setView('browse');
+            setCurrentPath(file ? path.dirname(p) : p);
+            setSelectedIndex(0);
+            setViewOffset(0);
+          }}
+          onClose={() => setView('browse')}
+          height={Math.max(5, termRows - 8 - selectionLines)}
+        />
+      )}
+
+      {view === 'volumes' && (
+        <VolumesView
+          current={currentPath}
+          onJump={(mount) => {
+            setView('browse');
+            setCurrentPath(mount);
+            setSelectedIndex(0);
+            setViewOffset(0);
+          }}
+          onClose={() => setView('browse')}
+          height={Math.max(5, termRows - 8 - selectionLines)}
+          width={termCols}
+        />
+      )}
+
+      {view === 'denied' && forest && (
+        <DeniedView
+          root={currentPath}
+          paths={(() => { const hit = findNode(forest, currentPath); return hit ? deniedPaths(currentPath, hit.node) : []; })()}
+          onClose={() => setView('browse')}
+          height={Math.max(5, termRows - 8 - selectionLines)}
+        />
+      )}
+
+      {view === 'browse' && entry && (
         <>
           <SectionTitle>
-            Folders (top {TOP_N})
+            {filter ? `Folders matching “${filter}”` : `Folders (top ${topN})`}
+            {sort !== 'size' && <Text> by {SORT_LABEL[sort]}</Text>}
             {entry.status === 'scanning' && folderRows.length > 0 && (
-              <Text dimColor italic> (cached — updating…)</Text>
+              <Text dimColor italic>{entry.measured ? ' (live — largest so far)' : ' (cached — updating…)'}</Text>
             )}
           </SectionTitle>
+          {filter != null && (
+            <Text>
+              <Text color="cyan">/</Text>
+              <Text>{filter}</Text>
+              {filterEditing && <Text inverse> </Text>}
+              <Text dimColor>  {filterEditing ? 'Enter: keep filter • Esc: clear' : 'n/N: next/prev match • /: edit • Esc: clear'}</Text>
+            </Text>
+          )}
           {totalFolderRows > 0 && (
             <Text dimColor>
               Showing {safeOffset + 1}-{Math.min(safeOffset + folderViewSize, totalFolderRows)} of {totalFolderRows}
             </Text>
           )}
           {folderRows.length === 0 ? (
-            <Text dimColor>(none)</Text>
+            <Text dimColor>{filter ? '(no matches)' : '(none)'}</Text>
           ) : (
             <Rows
               items={folderRows}
-              selectedIndex={Math.min(selectedIndex - safeOffset, folderRows.length - 1)}
+              selectedIndex={focus === 'dirs' ? Math.min(selectedIndex - safeOffset, folderRows.length - 1) : -1}
+              width={termCols}
             />
           )}
+          {fileRowsAll.length > 0 && (
+            <>
+              <SectionTitle>
+                Files (largest {fileScope === 'subtree' ? 'in subtree' : 'here'})
+                <Text dimColor italic> Tab: switch section • f: {fileScope === 'subtree' ? 'this folder only' : 'include subfolders'}</Text>
+              </SectionTitle>
+              <Rows
+                items={fileRows}
+                selectedIndex={focus === 'files' ? Math.min(fileIndex, fileRowsAll.length - 1) - fileOffset : -1}
+                width={termCols}
+              />
+            </>
+          )}
         </>
       )}
 
       {deletePrompt && (
         <Box marginTop={1} flexDirection="column">
           <Text color="red" bold>
-            {deletePrompt.status === 'working' ? 'Deleting…' : 'Delete selected folder?'}
+            {deletePrompt.status === 'working' ? 'Moving…'
+              : deletePrompt.status === 'finished' ? 'Some items could not be moved'
+              : `Move ${deletePrompt.items.length === 1 ? 'selected item' : `${deletePrompt.items.length} items`} (${humanFromKB(deletePrompt.items.reduce((sum, it) => sum + it.kb, 0))}) to ${deleteMode() === 'staging' ? 'staging' : 'Trash'}?`}
           </Text>
-          <Text>
-            <Text color="yellow">{deletePrompt.path}</Text>
-          </Text>
-          {deletePrompt.error && (
-            <Text color="red">Error: {deletePrompt.error}</Text>
+          {deletePrompt.items.map((it) => (
+            <Text key={it.path}>
+              <Text color={it.state === 'done' ? 'green' : it.state === 'failed' ? 'red' : 'gray'}>
+                {it.state === 'done' ? '✓ ' : it.state === 'failed' ? '✗ ' : '· '}
+              </Text>
+              <Text color="yellow">{it.path}</Text>
+              {it.error && <Text color="red"> — {it.error}</Text>}
+            </Text>
+          ))}
+          {deletePrompt.status === 'working' && (
+            <Text dimColor>{deletePrompt.items.filter((it) => it.state !== 'pending').length}/{deletePrompt.items.length} processed…</Text>
           )}
           <Text dimColor>
-            {deletePrompt.status === 'working' ? 'Please wait…' : 'Press y to confirm, n to cancel'}
+            {deletePrompt.status === 'working' ? 'Please wait…'
+              : deletePrompt.status === 'finished' ? 'Press any key to close'
+              : 'Press y to confirm, n to cancel'}
           </Text>
         </Box>
       )}
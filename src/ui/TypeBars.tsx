@@ -0,0 +1,38 @@
+import React from 'react';
+import {Box, Text} from 'ink';
+import {humanFromKB} from '../utils.js';
+import {FileType, typeBreakdown, TypeSizes} from '../filetypes.js';
+
+const TYPE_COLOR: Record<FileType, string> = {
+  video: 'magenta',
+  image: 'cyan',
+  audio: 'blue',
+  archive: 'yellow',
+  diskImage: 'red',
+  vm: 'redBright',
+  code: 'green',
+  data: 'white',
+  other: 'gray',
+};
+
+// One line per file type, largest first: label, size, share and a bar.
+export default function TypeBars({types, limit, barWidth = 24}: {types: TypeSizes; limit?: number; barWidth?: number}) {
+  const rows = typeBreakdown(types);
+  const total = rows.reduce((sum, r) => sum + r.size, 0);
+  if (total === 0) return <Text dimColor>(no files)</Text>;
+  return (
+    <Box flexDirection="column">
+      {rows.slice(0, limit).map((r) => {
+        const share = r.size / total;
+        return (
+          <Text key={r.type}>
+            <Text>{r.label.padEnd(18)}</Text>
+            <Text color="green">{humanFromKB(r.size).padEnd(9)}</Text>
+            <Text dimColor>{`${Math.round(share * 100)}%`.padStart(4)} </Text>
+            <Text color={TYPE_COLOR[r.type]}>{'█'.repeat(Math.max(1, Math.round(share * barWidth)))}</Text>
+          </Text>
+        );
+      })}
+    </Box>
+  );
+}
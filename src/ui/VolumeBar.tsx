@@ -0,0 +1,15 @@
+import React from 'react';
+import {Text} from 'ink';
+
+// How full a filesystem is: a bar that turns yellow past 80% and red past 90%, then the percentage.
+export default function VolumeBar({percent, width = 20}: {percent: number; width?: number}) {
+  const filled = Math.min(width, Math.round((percent / 100) * width));
+  const color = percent >= 90 ? 'red' : percent >= 80 ? 'yellow' : 'green';
+  return (
+    <Text>
+      <Text color={color}>{'█'.repeat(filled)}</Text>
+      <Text color="gray">{'░'.repeat(width - filled)}</Text>
+      <Text dimColor>{`${Math.round(percent)}%`.padStart(5)}</Text>
+    </Text>
+  );
+}
@@ -0,0 +1,78 @@
+import React, {useEffect, useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import {humanFromKB} from '../utils.js';
+import {listVolumes, mountOf, Volume} from '../volumes.js';
+import VolumeBar from './VolumeBar.js';
+
+type Props = {
+  current: string; // its filesystem is marked and selected first
+  onJump: (mount: string) => void;
+  onClose: () => void;
+  height: number; // lines available for the list
+  width: number; // long mount points are cut to fit
+};
+
+// Mounted filesystems with total, used and free space (statfs, like `df`).
+export default function VolumesView({current, onJump, onClose, height, width}: Props) {
+  const [volumes, setVolumes] = useState<Volume[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const here = volumes ? mountOf(current, volumes) : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    void listVolumes().then((vols) => {
+      if (cancelled) return;
+      const at = mountOf(current, vols);
+      setVolumes(vols);
+      setSelected(at ? vols.indexOf(at) : 0);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useInput((_input, key) => {
+    const n = volumes?.length ?? 0;
+    if (key.escape) {
+      onClose();
+    } else if (key.return) {
+      const v = volumes?.[selected];
+      if (v) onJump(v.mount);
+    } else if (key.upArrow) {
+      setSelected((i) => n ? (i - 1 + n) % n : 0);
+    } else if (key.downArrow) {
+      setSelected((i) => n ? (i + 1) % n : 0);
+    }
+  });
+
+  const list = volumes ?? [];
+  // Everything but the mount point takes about 70 columns
+  const mountW = Math.max(10, Math.min(Math.max(5, ...list.map((v) => v.mount.length)), width - 72));
+  const cut = (s: string) => s.length > mountW ? s.slice(0, mountW - 1) + '…' : s.padEnd(mountW);
+  const rows = Math.max(1, height - 3);
+  const offset = Math.max(0, Math.min(selected - Math.floor(rows / 2), list.length - rows));
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text>
+        <Text color="magenta" bold>Volumes </Text>
+        <Text>{volumes ? `${list.length} mounted filesystem${list.length === 1 ? '' : 's'}` : 'reading the mount table…'}</Text>
+        <Text dimColor>  (Up/Down: select • Enter: browse • Esc: back)</Text>
+      </Text>
+      {volumes && list.length === 0 && <Text dimColor>(none found)</Text>}
+      {list.length > 0 && <Text dimColor>{`    ${cut('Mount')}  ${'Size'.padStart(9)} ${'Used'.padStart(9)} ${'Free'.padStart(9)}`}</Text>}
+      {list.slice(offset, offset + rows).map((v, i) => (
+        <Box key={v.mount}>
+          <Text inverse={offset + i === selected}>
+            {offset + i === selected ? '▶ ' : '  '}
+            <Text color="cyan">{v === here ? '● ' : '  '}</Text>
+            {cut(v.mount)}
+          </Text>
+          <Text>  {humanFromKB(v.totalBytes / 1024).padStart(9)} {humanFromKB(v.usedBytes / 1024).padStart(9)} </Text>
+          <Text color="green">{humanFromKB(v.freeBytes / 1024).padStart(9)}  </Text>
+          <VolumeBar percent={v.usedPercent}/>
+          <Text dimColor>  {v.type}</Text>
+        </Box>
+      ))}
+      {here && <Text dimColor>● holds the current folder</Text>}
+    </Box>
+  );
+}
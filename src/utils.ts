@@ -1,7 +1,14 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
-export type SizeEntry = { kb: number; path: string };
+// bytes is exact where the scanner knows it (walker totals, file sizes); label names preset locations.
+// modifiedAt/accessedAt (ms) are the newest file mtime/atime in the subtree, when the walker saw any;
+// fileCount/dirCount count everything below the folder.
+// unreadable counts paths the walker could not read; status says what that means for kb:
+// 'error' when the path itself was unreadable (kb is 0), 'partial' when only some of it was.
+export type SizeEntry = { kb: number; path: string; bytes?: number; label?: string; modifiedAt?: number; accessedAt?: number; fileCount?: number; dirCount?: number; unreadable?: number; status?: ReadStatus };
+
+export type ReadStatus = 'error' | 'partial';
 
 export function humanFromKB(kb: number): string {
   const units = ['KB', 'MB', 'GB', 'TB', 'PB'] as const;
@@ -11,10 +18,6 @@ export function humanFromKB(kb: number): string {
   return `${x.toFixed(1)}${units[i]}`;
 }
 
-export function applyExcludes(p: string, excludes: string[]): boolean {
-  return excludes.some((e) => p.includes(e));
-}
-
 export function listImmediateDirectories(dir: string): string[] {
   const entries = fs.readdirSync(dir, { withFileTypes: true });
   return entries
@@ -22,14 +25,102 @@ export function listImmediateDirectories(dir: string): string[] {
     .map((d) => path.join(dir, d.name));
 }
 
-export function safeReaddir(dir: string): string[] {
+// Missing folders read as empty; anything else (e.g. EACCES) goes to onError.
+export function safeReaddir(dir: string, onError?: (e: NodeJS.ErrnoException) => void): string[] {
   try {
     return listImmediateDirectories(dir);
-  } catch {
+  } catch (e: any) {
+    if (isUnreadable(e)) onError?.(e);
     return [];
   }
 }
 
+// Read failures worth reporting: permission problems, I/O errors and the like,
+// but not paths that vanished mid-walk.
+export function isUnreadable(e: NodeJS.ErrnoException): boolean {
+  return e?.code !== 'ENOENT' && e?.code !== 'ENOTDIR';
+}
+
 export function toTopN<T>(arr: T[], n: number): T[] {
   return arr.slice(0, Math.max(0, n));
 }
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// "90s", "12h", "7d", "2w" -> milliseconds; a bare number is taken as days.
+export function parseDuration(text: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)\s*([smhdw]?)$/.exec(text.trim());
+  if (!m) return null;
+  return parseFloat(m[1]!) * DURATION_UNITS[m[2] || 'd']!;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4, p: 1024 ** 5 };
+
+// "10GB", "500M", "1.5TiB", "800B" -> bytes. Units are binary, as humanFromKB
+// prints them; a bare number is rejected rather than guessed.
+export function parseSize(text: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)\s*(?:([kmgtp])(?:i?b)?|b)$/i.exec(text.trim());
+  if (!m) return null;
+  return Math.round(parseFloat(m[1]!) * SIZE_UNITS[(m[2] ?? '').toLowerCase()]!);
+}
+
+// "5GB/h", "500MB/10m" -> bytes per period; the period takes parseDuration units.
+export function parseRate(text: string): { bytes: number; perMs: number } | null {
+  const [size, per, ...rest] = text.split('/').map((s) => s.trim());
+  if (!size || !per || rest.length) return null;
+  const bytes = parseSize(size);
+  const perMs = parseDuration(/^\d/.test(per) ? per : `1${per}`);
+  return bytes == null || !perMs ? null : { bytes, perMs };
+}
+
+export function formatAge(ms: number): string {
+  const sec = Math.max(0, Math.floor(ms / 1000));
+  if (sec < 60) return `${sec}s`;
+  if (sec < 3600) return `${Math.floor(sec / 60)}m`;
+  if (sec < 86400) return `${Math.floor(sec / 3600)}h`;
+  return `${Math.floor(sec / 86400)}d`;
+}
+
+// Local calendar date, e.g. 2024-03-09.
+export function formatDate(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Compact counts for narrow columns: 950, 12.3k, 4.1M.
+export function formatCount(n: number): string {
+  if (n < 1000) return String(n);
+  if (n < 1_000_000) return `${(n / 1000).toFixed(n < 10_000 ? 1 : 0)}k`;
+  return `${(n / 1_000_000).toFixed(1)}M`;
+}
+
+// Row marker for entries the walker could not fully read, or null.
+export function readMarker(e: SizeEntry): string | null {
+  if (e.status === 'error') return '⚠ unreadable';
+  if (e.status === 'partial') return `⚠ ${formatCount(e.unreadable ?? 0)} unreadable`;
+  return null;
+}
+
+// One line for a listing: how many paths were left out, across how many entries.
+export function unreadableSummary(entries: SizeEntry[]): string | null {
+  const hit = entries.filter((e) => e.status);
+  if (hit.length === 0) return null;
+  const paths = hit.reduce((sum, e) => sum + (e.unreadable ?? 0), 0);
+  return `⚠ ${formatCount(paths)} path${paths === 1 ? '' : 's'} could not be read in ${hit.length} of ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}; those sizes are lower bounds.`;
+}
+
+export type AgeBucket = '<30d' | '<1y' | '>1y';
+
+// Oldest first, the order the stale report lists them in.
+export const AGE_BUCKETS: AgeBucket[] = ['>1y', '<1y', '<30d'];
+
+// When anything in the entry was last written or read.
+export function lastUsed(e: SizeEntry): number | undefined {
+  if (e.modifiedAt == null && e.accessedAt == null) return undefined;
+  return Math.max(e.modifiedAt ?? 0, e.accessedAt ?? 0);
+}
+
+export function ageBucket(ageMs: number): AgeBucket {
+  if (ageMs < 30 * 86_400_000) return '<30d';
+  return ageMs < 365 * 86_400_000 ? '<1y' : '>1y';
+}
@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import {execFile} from 'node:child_process';
+import {currentPlatform} from './platform.js';
+import {isWithin} from './tree.js';
+
+// Mounted filesystems: the mount table (/proc/self/mounts on Linux, `mount`
+// on macOS) for mount point markers, and statfs figures for the volumes view.
+
+export type Mount = { mount: string; device: string; type: string; hidden: boolean };
+
+// Bytes as `df` counts them: used + free can be less than total, the
+// difference being reserved for root.
+export type Volume = Mount & { totalBytes: number; usedBytes: number; freeBytes: number; usedPercent: number };
+
+// Kernel and virtual filesystems; their mount points still count as boundaries.
+const PSEUDO_TYPES = new Set([
+  'proc', 'sysfs', 'devtmpfs', 'devpts', 'tmpfs', 'ramfs', 'cgroup', 'cgroup2', 'mqueue', 'securityfs', 'debugfs', 'tracefs',
+  'pstore', 'bpf', 'configfs', 'fusectl', 'hugetlbfs', 'binfmt_misc', 'autofs', 'nsfs', 'efivarfs', 'rpc_pipefs', 'selinuxfs',
+  'squashfs', 'devfs', 'nullfs',
+]);
+
+// /proc/mounts escapes spaces, tabs, newlines and backslashes as octal.
+function unescapeMount(s: string): string {
+  return s.replace(/\\([0-7]{3})/g, (_m, oct) => String.fromCharCode(parseInt(oct, 8)));
+}
+
+export function parseProcMounts(text: string): Mount[] {
+  return text.split('\n').filter(Boolean).map((line) => {
+    const [device = '', mount = '', type = ''] = line.split(' ');
+    return { mount: unescapeMount(mount), device: unescapeMount(device), type, hidden: PSEUDO_TYPES.has(type) };
+  });
+}
+
+// "/dev/disk3s1s1 on / (apfs, sealed, local, read-only, journaled)"; Finder
+// hides `nobrowse` volumes (the system's VM, Preboot, Update, …), and so do we.
+export function parseMacMounts(text: string): Mount[] {
+  const out: Mount[] = [];
+  for (const line of text.split('\n')) {
+    const m = /^(.+?) on (.+) \(([^,)]+)(.*)\)$/.exec(line);
+    if (!m) continue;
+    out.push({ device: m[1]!, mount: m[2]!, type: m[3]!, hidden: PSEUDO_TYPES.has(m[3]!) || /\bnobrowse\b/.test(m[4]!) });
+  }
+  return out;
+}
+
+// Every mount point, pseudo filesystems included. Empty when the table cannot be read.
+export async function listMounts(): Promise<Mount[]> {
+  if (currentPlatform() === 'darwin') {
+    return new Promise((resolve) => {
+      execFile('mount', (err, stdout) => resolve(err ? [] : parseMacMounts(stdout)));
+    });
+  }
+  try {
+    return parseProcMounts(await fs.promises.readFile('/proc/self/mounts', 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+export async function statVolume(m: Mount): Promise<Volume | null> {
+  try {
+    const st = await fs.promises.statfs(m.mount);
+    const totalBytes = st.blocks * st.bsize;
+    const usedBytes = (st.blocks - st.bfree) * st.bsize;
+    const freeBytes = st.bavail * st.bsize;
+    const usedPercent = usedBytes + freeBytes > 0 ? Math.round((usedBytes / (usedBytes + freeBytes)) * 1000) / 10 : 0;
+    return { ...m, totalBytes, usedBytes, freeBytes, usedPercent };
+  } catch {
+    return null;
+  }
+}
+
+// Real filesystems with their space, one row per device: bind mounts of
+// the same filesystem collapse into the shortest mount point.
+export async function listVolumes(): Promise<Volume[]> {
+  const byDev = new Map<number, Volume>();
+  for (const m of await listMounts()) {
+    if (m.hidden) continue;
+    const [st, vol] = await Promise.all([fs.promises.stat(m.mount).catch(() => null), statVolume(m)]);
+    if (!st || !vol || vol.totalBytes === 0) continue;
+    const seen = byDev.get(st.dev);
+    if (!seen || vol.mount.length < seen.mount.length) byDev.set(st.dev, vol);
+  }
+  return [...byDev.values()].sort((a, b) => a.mount.localeCompare(b.mount));
+}
+
+// The mount holding `p`: the longest mount point it sits within.
+export function mountOf<T extends Mount>(p: string, mounts: T[]): T | undefined {
+  let best: T | undefined;
+  for (const m of mounts) {
+    if (isWithin(m.mount, p) && (!best || m.mount.length > best.mount.length)) best = m;
+  }
+  return best;
+}
+
+// Mount points anywhere below `dir`. The walker stops at them unless told to
+// cross, so their contents are missing from every size above them.
+export function mountsBelow(dir: string, mounts: Mount[]): string[] {
+  return [...new Set(mounts.map((m) => m.mount).filter((p) => p !== dir && isWithin(dir, p)))];
+}
@@ -0,0 +1,322 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {isUnreadable, SizeEntry} from './utils.js';
+import {FileLeaf, itemCounts, readStatus, SizeNode, sortNodes, usedTimes} from './tree.js';
+import type {Progress} from './scanners.js';
+import type {ExcludeMatcher} from './ignore.js';
+import {addTypeSize, FileType, SNIFF_MIN_BYTES, sniffType, typeFromName, TypeSizes} from './filetypes.js';
+
+// In-process replacement for `du -skx`: walks with opendir/lstat, sums allocated
+// blocks, counts hard-linked inodes once and never crosses onto another device.
+
+export type WalkOptions = {
+  oneFileSystem?: boolean; // like `du -x` (default: true)
+  concurrency?: number; // subtrees walked in parallel
+  exclude?: ExcludeMatcher; // excluded entries are neither counted nor descended
+  signal?: AbortSignal; // stops the walk; whatever was counted so far is returned
+  onProgress?: (p: Progress) => void;
+  onListed?: (paths: string[]) => void; // sizeDirectory/sizePaths: the entries about to be measured
+  onMeasured?: (entry: SizeEntry) => void; // each of them as soon as its walk finishes, in completion order
+};
+
+// The parts of WalkOptions that come from the command line, config and caller.
+export type WalkSettings = Pick<WalkOptions, 'exclude' | 'concurrency' | 'signal' | 'onMeasured' | 'oneFileSystem'>;
+
+// types: bytes per file type in the whole tree; partial: the walk was aborted
+export type DirSizes = { path: string; kb: number; children: SizeEntry[]; tree: SizeNode; types: TypeSizes; partial: boolean };
+
+type WalkState = {
+  oneFileSystem: boolean;
+  seenInodes: Set<string>;
+  exclude?: ExcludeMatcher;
+  signal?: AbortSignal;
+};
+
+type Level = {
+  bytes: number; // allocation of every non-directory entry directly inside the directory
+  subdirs: Array<{ path: string; bytes: number; mtime: number }>; // bytes: allocation of the directory inode itself
+  files: FileLeaf[]; // largest files directly inside, for the navigator's Files section
+  newestMtime: number; // newest file mtime/atime directly inside, in seconds (0: no files)
+  newestAtime: number;
+  types: TypeSizes; // bytes per file type directly inside
+  fileCount: number; // non-directory entries directly inside
+  denied: string[]; // entries that could not be stat'ed, or ['.'] when the directory could not be listed
+};
+
+type Walked = { bytes: number; node: SizeNode; types: TypeSizes };
+
+// What sizeRoot saw below one path. Times are the newest file mtime/atime in
+// seconds, 0 when the subtree holds no files.
+type Rooted = { bytes: number; newestMtime: number; newestAtime: number } & Pick<SizeNode, 'unreadable' | 'denied'>;
+
+const DEFAULT_CONCURRENCY = 6;
+const LSTAT_BATCH = 64;
+const MIN_FILE_KB = 1024; // smaller files are never listed, only summed
+const FILES_PER_DIR = 10;
+
+function newState(opts: WalkOptions): WalkState {
+  return { oneFileSystem: opts.oneFileSystem ?? true, seenInodes: new Set(), exclude: opts.exclude, signal: opts.signal };
+}
+
+function allocatedBytes(st: fs.Stats): number {
+  // st.blocks is in 512-byte units regardless of the filesystem block size
+  return typeof st.blocks === 'number' ? st.blocks * 512 : st.size;
+}
+
+function countOnce(st: fs.Stats, state: WalkState): boolean {
+  if (st.isDirectory() || st.nlink <= 1) return true;
+  const key = `${st.dev}:${st.ino}`;
+  if (state.seenInodes.has(key)) return false;
+  state.seenInodes.add(key);
+  return true;
+}
+
+function mtimeSec(st: fs.Stats): number {
+  return Math.floor(st.mtimeMs / 1000);
+}
+
+function atimeSec(st: fs.Stats): number {
+  return Math.floor(st.atimeMs / 1000);
+}
+
+// Apparent size, the same measure `scanLargeFiles` reports.
+export function fileKb(st: fs.Stats): number {
+  return Math.floor(st.size / 1024);
+}
+
+function addTypes(into: TypeSizes, from: TypeSizes): void {
+  for (const [type, b] of Object.entries(from) as Array<[FileType, number]>) addTypeSize(into, type, b);
+}
+
+function typesKb(types: TypeSizes): TypeSizes {
+  const kb: TypeSizes = {};
+  for (const [type, b] of Object.entries(types) as Array<[FileType, number]>) addTypeSize(kb, type, kbFromBytes(b));
+  return kb;
+}
+
+function kbFromBytes(bytes: number): number {
+  return Math.ceil(bytes / 1024);
+}
+
+async function readLevel(dir: string, dev: number, state: WalkState): Promise<Level> {
+  const names: string[] = [];
+  const empty: Level = { bytes: 0, subdirs: [], files: [], newestMtime: 0, newestAtime: 0, types: {}, fileCount: 0, denied: [] };
+  if (state.signal?.aborted) return empty;
+  try {
+    const handle = await fs.promises.opendir(dir);
+    for await (const d of handle) names.push(d.name);
+  } catch (e: any) {
+    return isUnreadable(e) ? { ...empty, denied: ['.'] } : empty;
+  }
+  let bytes = 0;
+  let newestMtime = 0;
+  let newestAtime = 0;
+  let fileCount = 0;
+  const subdirs: Level['subdirs'] = [];
+  const files: FileLeaf[] = [];
+  const types: TypeSizes = {};
+  const denied: string[] = [];
+  const sniffed: Array<Promise<void>> = [];
+  for (let i = 0; i < names.length && !state.signal?.aborted; i += LSTAT_BATCH) {
+    const batch = names.slice(i, i + LSTAT_BATCH).map((n) => path.join(dir, n));
+    const stats = await Promise.all(batch.map((p) => fs.promises.lstat(p).catch((e) => {
+      if (isUnreadable(e)) denied.push(path.basename(p));
+      return null;
+    })));
+    stats.forEach((st, j) => {
+      if (!st) return;
+      if (state.oneFileSystem && st.dev !== dev) return; // mount point: skip like `du -x`
+      if (state.exclude?.(batch[j]!, st.isDirectory())) return;
+      if (st.isDirectory()) subdirs.push({ path: batch[j]!, bytes: allocatedBytes(st), mtime: mtimeSec(st) });
+      else fileCount++;
+      if (!st.isDirectory() && countOnce(st, state)) {
+        const b = allocatedBytes(st);
+        bytes += b;
+        const known = typeFromName(path.basename(batch[j]!));
+        if (known || !st.isFile() || st.size < SNIFF_MIN_BYTES) addTypeSize(types, known ?? 'other', b);
+        else sniffed.push(sniffType(batch[j]!).then((t) => addTypeSize(types, t ?? 'other', b)));
+      }
+      if (!st.isFile()) return;
+      // Files only: a folder's own times change whenever an entry is added or a listing is read
+      newestMtime = Math.max(newestMtime, mtimeSec(st));
+      newestAtime = Math.max(newestAtime, atimeSec(st));
+      if (fileKb(st) >= MIN_FILE_KB) files.push({ name: path.basename(batch[j]!), kb: fileKb(st) });
+    });
+  }
+  await Promise.all(sniffed);
+  files.sort((a, b) => b.kb - a.kb);
+  return { bytes, subdirs, files: files.slice(0, FILES_PER_DIR), newestMtime, newestAtime, types, fileCount, denied };
+}
+
+async function walkNode(dir: Level['subdirs'][number], dev: number, state: WalkState): Promise<Walked> {
+  const level = await readLevel(dir.path, dev, state);
+  let bytes = dir.bytes + level.bytes;
+  let {newestMtime, newestAtime, fileCount} = level;
+  let dirCount = level.subdirs.length;
+  let unreadable = level.denied.length;
+  const types = { ...level.types };
+  const children: SizeNode[] = [];
+  for (const sub of level.subdirs) {
+    const w = await walkNode(sub, dev, state);
+    bytes += w.bytes;
+    fileCount += w.node.fileCount ?? 0;
+    dirCount += w.node.dirCount ?? 0;
+    unreadable += w.node.unreadable ?? 0;
+    addTypes(types, w.types);
+    newestMtime = Math.max(newestMtime, w.node.newestMtime ?? 0);
+    newestAtime = Math.max(newestAtime, w.node.newestAtime ?? 0);
+    children.push(w.node);
+  }
+  const node: SizeNode = { name: path.basename(dir.path), kb: kbFromBytes(bytes), mtime: dir.mtime, children: sortNodes(children) };
+  if (level.files.length) node.files = level.files;
+  if (newestMtime) node.newestMtime = newestMtime;
+  if (newestAtime) node.newestAtime = newestAtime;
+  if (Object.keys(types).length) node.types = typesKb(types);
+  if (fileCount) node.fileCount = fileCount;
+  if (dirCount) node.dirCount = dirCount;
+  if (level.denied.length) node.denied = level.denied;
+  if (unreadable) node.unreadable = unreadable;
+  return { bytes, node, types };
+}
+
+// Null when `target` does not exist; an unreadable target comes back empty with denied ['.'].
+async function sizeRoot(target: string, state: WalkState): Promise<Rooted | null> {
+  let st: fs.Stats;
+  try {
+    st = await fs.promises.lstat(target);
+  } catch (e: any) {
+    return isUnreadable(e) ? { bytes: 0, newestMtime: 0, newestAtime: 0, unreadable: 1, denied: ['.'] } : null;
+  }
+  if (st.isDirectory()) {
+    const w = await walkNode({ path: target, bytes: allocatedBytes(st), mtime: mtimeSec(st) }, st.dev, state);
+    return { bytes: w.bytes, newestMtime: w.node.newestMtime ?? 0, newestAtime: w.node.newestAtime ?? 0, unreadable: w.node.unreadable, denied: w.node.denied };
+  }
+  return { bytes: countOnce(st, state) ? allocatedBytes(st) : 0, newestMtime: mtimeSec(st), newestAtime: atimeSec(st) };
+}
+
+// Lists entries below `root` that `pick` accepts, like `find -xdev` but without
+// descending into excluded folders. Picked folders are not descended either
+// (`find -prune`). Symlinks are never followed.
+export async function listPaths(root: string, pick: (p: string, st: fs.Stats) => boolean, opts: Pick<WalkOptions, 'exclude' | 'signal' | 'oneFileSystem'> = {}): Promise<Array<{ path: string; stats: fs.Stats }>> {
+  const out: Array<{ path: string; stats: fs.Stats }> = [];
+  const rootDev = (opts.oneFileSystem ?? true) ? (await fs.promises.lstat(root).catch(() => null))?.dev : undefined;
+  const visit = async (dir: string) => {
+    if (opts.signal?.aborted) return;
+    const names: string[] = [];
+    try {
+      const handle = await fs.promises.opendir(dir);
+      for await (const d of handle) names.push(d.name);
+    } catch {
+      return;
+    }
+    for (let i = 0; i < names.length; i += LSTAT_BATCH) {
+      const batch = names.slice(i, i + LSTAT_BATCH).map((n) => path.join(dir, n));
+      const stats = await Promise.all(batch.map((p) => fs.promises.lstat(p).catch(() => null)));
+      for (const [j, st] of stats.entries()) {
+        const p = batch[j]!;
+        if (!st || opts.exclude?.(p, st.isDirectory())) continue;
+        if (rootDev != null && st.dev !== rootDev) continue; // mount point
+        if (pick(p, st)) out.push({ path: p, stats: st });
+        else if (st.isDirectory()) await visit(p);
+      }
+    }
+  };
+  await visit(root);
+  return out;
+}
+
+async function runPool<T>(items: T[], concurrency: number, fn: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> {
+  let idx = 0;
+  async function worker() {
+    while (idx < items.length && !signal?.aborted) {
+      const item = items[idx++]!;
+      await fn(item);
+    }
+  }
+  const n = Math.min(Math.max(1, concurrency), Math.max(1, items.length));
+  await Promise.all(Array.from({length: n}, () => worker()));
+}
+
+export async function sizePathKb(target: string, opts: WalkOptions = {}): Promise<number> {
+  const r = await sizeRoot(target, newState(opts));
+  return r == null ? 0 : kbFromBytes(r.bytes);
+}
+
+// Sizes independent paths (e.g. node_modules hits) concurrently, each with a
+// walker state of its own, like `du -s` per path: a file hard-linked into two
+// of them counts in both, so no size depends on which walk got there first.
+// Missing paths are dropped.
+export async function sizePaths(paths: string[], opts: WalkOptions = {}): Promise<SizeEntry[]> {
+  const total = paths.length;
+  const results: SizeEntry[] = [];
+  let processed = 0;
+  opts.onListed?.(paths);
+  opts.onProgress?.({ phase: 'measuring', processed: 0, total });
+  await runPool(paths, opts.concurrency ?? DEFAULT_CONCURRENCY, async (p) => {
+    const r = await sizeRoot(p, newState(opts));
+    if (r != null && !opts.signal?.aborted) {
+      const entry: SizeEntry = { kb: kbFromBytes(r.bytes), path: p, bytes: r.bytes, ...usedTimes(r), ...readStatus(r) };
+      results.push(entry);
+      opts.onMeasured?.(entry);
+    }
+    opts.onProgress?.({ phase: 'measuring', processed: ++processed, total });
+  }, opts.signal);
+  results.sort((a, b) => b.kb - a.kb);
+  return results;
+}
+
+function childEntry(root: string, node: SizeNode, bytes?: number): SizeEntry {
+  return { kb: node.kb, path: path.join(root, node.name), bytes, ...usedTimes(node), ...itemCounts(node), ...readStatus(node) };
+}
+
+// Walks `root` once and returns its total, the size of every immediate
+// subdirectory (largest first) and the full directory size tree below it.
+export async function sizeDirectory(root: string, opts: WalkOptions = {}): Promise<DirSizes> {
+  const state = newState(opts);
+  const st = await fs.promises.lstat(root);
+  const name = path.basename(root) || root;
+  if (!st.isDirectory()) {
+    const kb = kbFromBytes(allocatedBytes(st));
+    const types: TypeSizes = {};
+    addTypeSize(types, typeFromName(name) ?? 'other', allocatedBytes(st));
+    return { path: root, kb, children: [], tree: { name, kb, mtime: mtimeSec(st), children: [] }, types, partial: false };
+  }
+
+  const level = await readLevel(root, st.dev, state);
+  let bytes = allocatedBytes(st) + level.bytes;
+  const total = level.subdirs.length;
+  let {newestMtime, newestAtime, fileCount} = level;
+  let dirCount = level.subdirs.length;
+  let unreadable = level.denied.length;
+  const types = { ...level.types };
+  const nodes: SizeNode[] = [];
+  const bytesOf = new Map<string, number>();
+  opts.onListed?.(level.subdirs.map((d) => d.path));
+  opts.onProgress?.({ phase: 'measuring', processed: 0, total });
+  await runPool(level.subdirs, opts.concurrency ?? DEFAULT_CONCURRENCY, async (sub) => {
+    const w = await walkNode(sub, st.dev, state);
+    bytes += w.bytes;
+    newestMtime = Math.max(newestMtime, w.node.newestMtime ?? 0);
+    newestAtime = Math.max(newestAtime, w.node.newestAtime ?? 0);
+    fileCount += w.node.fileCount ?? 0;
+    dirCount += w.node.dirCount ?? 0;
+    unreadable += w.node.unreadable ?? 0;
+    addTypes(types, w.types);
+    bytesOf.set(w.node.name, w.bytes);
+    nodes.push(w.node);
+    if (!state.signal?.aborted) opts.onMeasured?.(childEntry(root, w.node, w.bytes));
+    opts.onProgress?.({ phase: 'measuring', processed: nodes.length, total });
+  }, opts.signal);
+  const kb = kbFromBytes(bytes);
+  const tree: SizeNode = { name, kb, mtime: mtimeSec(st), children: sortNodes(nodes) };
+  if (level.files.length) tree.files = level.files;
+  if (newestMtime) tree.newestMtime = newestMtime;
+  if (newestAtime) tree.newestAtime = newestAtime;
+  if (Object.keys(types).length) tree.types = typesKb(types);
+  if (fileCount) tree.fileCount = fileCount;
+  if (dirCount) tree.dirCount = dirCount;
+  if (level.denied.length) tree.denied = level.denied;
+  if (unreadable) tree.unreadable = unreadable;
+  const children = tree.children.map((c) => childEntry(root, c, bytesOf.get(c.name)));
+  return { path: root, kb, children, tree, types, partial: !!opts.signal?.aborted };
+}
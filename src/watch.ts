@@ -0,0 +1,176 @@
+import fs from 'node:fs';
+import {spawn} from 'node:child_process';
+import {CliArgs} from './cli.js';
+import {loadExcludes} from './ignore.js';
+import {sizeDirectory} from './walker.js';
+import {findNode, graftTree, isWithin, outermostPaths, readStatus, SizeNode} from './tree.js';
+import {loadCacheFromDisk, saveCacheToDisk} from './persist.js';
+import {freeBytes} from './budgets.js';
+import {formatDeltaKb} from './diff.js';
+import {formatAge, formatDate, humanFromKB, readMarker, ReadStatus} from './utils.js';
+import {lowerPriority, notifyDesktop} from './platform.js';
+import type {PresetLocation} from './scanners.js';
+
+// `watch`: walks the watched roots on an interval, at low priority, and
+// grafts every finished tree into the persisted cache so the navigator opens
+// on fresh sizes. After each round it checks free space and growth and alerts.
+
+export type WatchSettings = {
+  paths: string[]; // absolute roots walked every round
+  preset: boolean; // also walk preset locations outside those roots
+  intervalMs: number; // from the start of one round to the next
+  minFreeBytes?: number; // alert when a watched filesystem drops below this
+  maxGrowth?: { bytes: number; perMs: number; text: string }; // alert when a root grows faster
+  notify: boolean; // desktop notifications for alerts
+  hook?: string; // shell command run for every alert
+};
+
+export type WatchAlert = { alert: 'low-space' | 'growth'; path: string; bytes: number; message: string };
+
+// One log line each; ndjson writes them as-is with an `at` timestamp.
+type WatchEvent =
+  | { type: 'scan'; path: string; bytes: number; human: string; deltaBytes: number | null; status: string; unreadable: number }
+  | { type: 'free'; path: string; bytes: number; human: string }
+  | ({ type: 'alert' } & WatchAlert)
+  | { type: 'error'; path: string; message: string };
+
+type Emit = (e: WatchEvent) => void;
+
+function timestamp(ms: number): string {
+  return `${formatDate(ms)} ${new Date(ms).toTimeString().slice(0, 8)}`;
+}
+
+function describe(e: WatchEvent): string {
+  switch (e.type) {
+    case 'scan': {
+      const marker = readMarker({ kb: 0, path: e.path, status: e.status === 'ok' ? undefined : e.status as ReadStatus, unreadable: e.unreadable });
+      const delta = e.deltaBytes == null ? '' : `  ${formatDeltaKb(e.deltaBytes / 1024)}`;
+      return `scanned ${e.path}  ${e.human}${delta}${marker ? `  ${marker}` : ''}`;
+    }
+    case 'free':
+      return `free space at ${e.path}: ${e.human}`;
+    case 'alert':
+      return `ALERT ${e.message}`;
+    case 'error':
+      return `error ${e.path}: ${e.message}`;
+  }
+}
+
+function emitter(format: string | undefined): Emit {
+  return (e) => {
+    const at = Date.now();
+    process.stdout.write(format === 'ndjson' ? JSON.stringify({ ...e, at: new Date(at).toISOString() }) + '\n' : `${timestamp(at)}  ${describe(e)}\n`);
+  };
+}
+
+// The log line always; a desktop notification and the hook when configured.
+// The hook gets the alert in STORAGE_CLEANUP_ALERT/_PATH/_BYTES/_MESSAGE.
+function raise(a: WatchAlert, s: WatchSettings, emit: Emit): void {
+  emit({ type: 'alert', ...a });
+  if (s.notify) notifyDesktop(a.alert === 'low-space' ? 'Low disk space' : 'Folder growing fast', a.message);
+  if (s.hook) {
+    const env = { ...process.env, STORAGE_CLEANUP_ALERT: a.alert, STORAGE_CLEANUP_PATH: a.path, STORAGE_CLEANUP_BYTES: String(a.bytes), STORAGE_CLEANUP_MESSAGE: a.message };
+    const ps = spawn(s.hook, { shell: true, env, stdio: ['ignore', 'inherit', 'inherit'] });
+    ps.on('error', (e) => emit({ type: 'error', path: s.hook!, message: e.message }));
+  }
+}
+
+// Preset locations inside a watched root are already part of its tree.
+function watchRoots(s: WatchSettings, presets: PresetLocation[]): string[] {
+  const roots = outermostPaths([...new Set(s.paths)]);
+  if (!s.preset) return roots;
+  const extra = presets.map((loc) => loc.path).filter((p) => fs.existsSync(p) && !roots.some((r) => isWithin(r, p)));
+  return [...roots, ...outermostPaths([...new Set(extra)])];
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+// One line per filesystem holding a root. `low` remembers which devices are
+// already below minFreeBytes, so the alert fires when free space crosses it,
+// not every round.
+async function checkFreeSpace(roots: string[], s: WatchSettings, emit: Emit, low: Map<number, boolean>): Promise<void> {
+  const seen = new Set<number>();
+  for (const root of roots) {
+    let dev: number;
+    try {
+      dev = (await fs.promises.stat(root)).dev;
+    } catch {
+      continue;
+    }
+    if (seen.has(dev)) continue;
+    seen.add(dev);
+    const bytes = await freeBytes(root).catch(() => null);
+    if (bytes == null) continue;
+    emit({ type: 'free', path: root, bytes, human: humanFromKB(bytes / 1024) });
+    if (s.minFreeBytes == null) continue;
+    const below = bytes < s.minFreeBytes;
+    if (below && !low.get(dev)) raise({ alert: 'low-space', path: root, bytes, message: `only ${humanFromKB(bytes / 1024)} free at ${root}, below ${humanFromKB(s.minFreeBytes / 1024)}` }, s, emit);
+    low.set(dev, below);
+  }
+}
+
+// One round: free space first (it is quick and the most urgent), then the walks.
+async function watchRound(args: CliArgs, s: WatchSettings, signal: AbortSignal, emit: Emit, low: Map<number, boolean>): Promise<void> {
+  const roots = watchRoots(s, args.presets);
+  await checkFreeSpace(roots, s, emit, low);
+  const before = await loadCacheFromDisk();
+  const walked: Array<{ root: string; tree: SizeNode; at: number }> = [];
+  for (const root of roots) {
+    if (signal.aborted) break;
+    let dir;
+    try {
+      dir = await sizeDirectory(root, { exclude: await loadExcludes(root, args.excludes), concurrency: args.concurrency, signal, oneFileSystem: !args.crossMounts });
+    } catch (e: any) {
+      emit({ type: 'error', path: root, message: e?.code === 'ENOENT' ? 'no such path' : e?.message || String(e) });
+      continue;
+    }
+    if (dir.partial) break; // stopped mid-walk: never cache an incomplete tree
+    const at = Date.now();
+    walked.push({ root, tree: dir.tree, at });
+    const prev = findNode(before, root);
+    const known = prev && !prev.partial ? prev : null;
+    const deltaBytes = known ? (dir.kb - known.node.kb) * 1024 : null;
+    const read = readStatus(dir.tree);
+    emit({ type: 'scan', path: root, bytes: dir.kb * 1024, human: humanFromKB(dir.kb), deltaBytes, status: read.status ?? 'ok', unreadable: read.unreadable ?? 0 });
+    // Growth is measured against the cached walk before this one, whichever run made it
+    const growth = s.maxGrowth;
+    const elapsed = known ? at - known.scannedAt : 0;
+    if (growth && deltaBytes != null && deltaBytes > 0 && elapsed > 0 && deltaBytes / elapsed > growth.bytes / growth.perMs) {
+      raise({ alert: 'growth', path: root, bytes: deltaBytes, message: `${root} grew ${humanFromKB(deltaBytes / 1024)} in ${formatAge(elapsed)}, faster than ${growth.text}` }, s, emit);
+    }
+  }
+  if (walked.length) {
+    try {
+      let forest = await loadCacheFromDisk(); // reloaded: keeps what other runs saved during the walks
+      for (const w of walked) forest = graftTree(forest, w.root, w.tree, w.at);
+      await saveCacheToDisk(forest);
+    } catch (e: any) {
+      emit({ type: 'error', path: 'cache', message: e?.message || String(e) });
+    }
+  }
+}
+
+// Runs rounds until `signal` aborts (Ctrl+C, SIGTERM). Returns the exit code.
+export async function runWatch(args: CliArgs, signal: AbortSignal): Promise<number> {
+  const s = args.watch;
+  if (!s) throw new Error('watch settings missing');
+  const emit = emitter(args.format);
+  const low = new Map<number, boolean>();
+  await lowerPriority();
+  while (!signal.aborted) {
+    const started = Date.now();
+    await watchRound(args, s, signal, emit, low);
+    await sleep(Math.max(0, started + s.intervalMs - Date.now()), signal);
+  }
+  return 0;
+}
@@ -0,0 +1,72 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {checkBudgets, formatLimit, parseBudget, splitBudget, withinBudget} from '../src/budgets.js';
+import type {PresetLocation} from '../src/scanners.js';
+
+const presets: PresetLocation[] = [{ label: 'Gradle cache', path: '/home/me/.gradle' }];
+
+test('splitBudget reads the target, operator and size', () => {
+  assert.deepEqual(splitBudget('~/.gradle <= 10GB'), { target: '~/.gradle', op: '<=', limitBytes: 10 * 1024 ** 3 });
+  assert.deepEqual(splitBudget('free space>=500M'), { target: 'free space', op: '>=', limitBytes: 500 * 1024 ** 2 });
+  assert.deepEqual(splitBudget('x ≤ 1.5TiB'), { target: 'x', op: '<=', limitBytes: Math.round(1.5 * 1024 ** 4) });
+  assert.deepEqual(splitBudget('x ≥ 0B'), { target: 'x', op: '>=', limitBytes: 0 });
+  assert.equal(splitBudget('x < 1K').op, '<');
+  assert.equal(splitBudget('x > 1K').op, '>');
+});
+
+test('splitBudget rejects malformed specs', () => {
+  assert.throws(() => splitBudget('~/.gradle 10GB'), /needs one of/);
+  assert.throws(() => splitBudget('<= 10GB'), /needs one of|names no path/);
+  assert.throws(() => splitBudget('~/.gradle <= 10'), /is not a size/);
+  assert.throws(() => splitBudget('~/.gradle <= lots'), /is not a size/);
+});
+
+test('parseBudget resolves paths, preset labels and free space', () => {
+  const base = '/work';
+  const home = parseBudget('~/.m2 <= 1G', presets, base);
+  assert.equal(home.kind, 'size');
+  assert.equal(home.path, path.join(os.homedir(), '.m2'));
+  assert.equal(parseBudget('./out < 1G', presets, base).path, '/work/out');
+  assert.equal(parseBudget('/var/log < 1G', presets, base).path, '/var/log');
+
+  const preset = parseBudget('gradle CACHE <= 10GB', presets, base);
+  assert.deepEqual({ kind: preset.kind, target: preset.target, path: preset.path }, { kind: 'size', target: 'Gradle cache', path: '/home/me/.gradle' });
+
+  const free = parseBudget('free space >= 50GB', presets, base);
+  assert.deepEqual({ kind: free.kind, path: free.path }, { kind: 'free', path: '/work' });
+  assert.equal(parseBudget('Free /mnt/builds >= 1G', presets, base).path, '/mnt/builds');
+});
+
+test('parseBudget rejects unknown labels', () => {
+  assert.throws(() => parseBudget('Xcode cache <= 1G', presets, '/work'), /not a path or a preset label/);
+});
+
+test('withinBudget and formatLimit', () => {
+  assert.equal(withinBudget(10, '<=', 10), true);
+  assert.equal(withinBudget(10, '<', 10), false);
+  assert.equal(withinBudget(10, '>=', 10), true);
+  assert.equal(withinBudget(10, '>', 10), false);
+  assert.equal(formatLimit({ op: '<=', limitBytes: 10 * 1024 ** 3 }), '≤ 10.0GB');
+  assert.equal(formatLimit({ op: '>', limitBytes: 1024 }), '> 1.0KB');
+});
+
+test('checkBudgets counts a file hard-linked into two targets in both', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'budgets-'));
+  try {
+    fs.mkdirSync(path.join(root, 'a'));
+    fs.mkdirSync(path.join(root, 'b'));
+    fs.writeFileSync(path.join(root, 'a', 'big.bin'), Buffer.alloc(256 * 1024, 1));
+    fs.linkSync(path.join(root, 'a', 'big.bin'), path.join(root, 'b', 'big.bin'));
+    const budgets = ['./a <= 200K', './b <= 200K'].map((spec) => parseBudget(spec, presets, root));
+    for (let i = 0; i < 3; i++) {
+      const results = await checkBudgets(budgets, { concurrency: 2 });
+      assert.deepEqual(results.map((r) => r.pass), [false, false]);
+      assert.ok(results.every((r) => r.bytes! >= 256 * 1024));
+    }
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,63 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import {CliArgs, parseArgs} from '../src/cli.js';
+import {emptyConfig} from '../src/config.js';
+
+function parse(...argv: string[]): CliArgs {
+  const args = parseArgs(argv);
+  assert.notEqual(args.cmd, 'help');
+  return args as CliArgs;
+}
+
+test('--older-than is checked while parsing', () => {
+  assert.equal(parse('stale', '--older-than', '180d').olderThan, '180d');
+  assert.equal(parse('artifacts', '--older-than', '12w').olderThan, '12w');
+  assert.throws(() => parseArgs(['stale', '--older-than', 'xyz']), /--older-than expects a duration .*"xyz"/);
+  assert.throws(() => parseArgs(['artifacts', '--older-than', '90 days']), /--older-than expects a duration/);
+});
+
+test('--format is checked while parsing', () => {
+  assert.equal(parse('dirs', '--format', 'csv').format, 'csv');
+  assert.equal(parse('dirs').format, undefined);
+  assert.throws(() => parseArgs(['dirs', '--format', 'xml']), /--format expects one of json, ndjson, csv, tsv, got "xml"/);
+});
+
+test('watch only takes --format ndjson', () => {
+  assert.equal(parse('watch', '--format', 'ndjson').format, 'ndjson');
+  assert.throws(() => parseArgs(['watch', '--format', 'json']), /--format ndjson \(got --format json\)/);
+});
+
+test('defaults, and the preset command without a subcommand', () => {
+  const args = parse();
+  assert.equal(args.cmd, 'preset');
+  assert.equal(args.top, 25);
+  assert.equal(args.minSizeMb, 100);
+  assert.equal(parse('dupes').minSizeMb, 1);
+  assert.equal(parse('--', 'dirs').cmd, 'dirs');
+  assert.deepEqual(parseArgs(['dirs', '--help']), { cmd: 'help' });
+});
+
+test('flags set their values; --path may repeat for watch', () => {
+  const args = parse('files', '--path', '/tmp', '--top', '5', '--min-size-mb', '50', '--exclude', '*.iso', '--exclude', 'cache/', '--debug');
+  assert.deepEqual({ startPath: args.startPath, pathGiven: args.pathGiven, top: args.top, minSizeMb: args.minSizeMb, excludes: args.excludes, debug: args.debug },
+    { startPath: '/tmp', pathGiven: true, top: 5, minSizeMb: 50, excludes: ['*.iso', 'cache/'], debug: true });
+  assert.deepEqual(parse('watch', '--path', '/a', '--path', 'b').watch!.paths, ['/a', path.resolve('b')]);
+});
+
+test('config values are defaults that flags override', () => {
+  const config = { ...emptyConfig(), startPath: '/srv', top: 7, minSizeMb: 300, excludes: ['node_modules/'], crossMounts: true };
+  const args = parseArgs(['files', '--top', '3', '--exclude', '*.log'], config) as CliArgs;
+  assert.deepEqual({ startPath: args.startPath, top: args.top, minSizeMb: args.minSizeMb, excludes: args.excludes, crossMounts: args.crossMounts },
+    { startPath: '/srv', top: 3, minSizeMb: 300, excludes: ['node_modules/', '*.log'], crossMounts: true });
+});
+
+test('unknown commands, options, stray arguments and missing values throw', () => {
+  assert.throws(() => parseArgs(['dir']), /Unknown command "dir"/);
+  assert.throws(() => parseArgs(['dirs', '--tops', '3']), /Unknown option --tops/);
+  assert.throws(() => parseArgs(['dirs', 'extra']), /Unexpected argument "extra"/);
+  assert.throws(() => parseArgs(['dirs', '--path']), /--path expects a value/);
+  assert.throws(() => parseArgs(['dirs', '--path', '--top', '3']), /--path expects a value/);
+  assert.throws(() => parseArgs(['dirs', '--top', '0']), /--top expects a whole number of at least 1, got "0"/);
+  assert.throws(() => parseArgs(['dirs', '--depth', '2.5']), /--depth expects a whole number/);
+});
@@ -0,0 +1,93 @@
+import {afterEach, beforeEach, test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {loadConfig, parseConfig, PROJECT_CONFIG_FILE} from '../src/config.js';
+
+let tmp: string;
+const saved = { home: process.env.HOME, config: process.env.XDG_CONFIG_HOME };
+
+function restoreEnv(name: 'HOME' | 'XDG_CONFIG_HOME', value: string | undefined) {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+beforeEach(async () => {
+  tmp = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'config-test-')));
+  process.env.HOME = tmp;
+  process.env.XDG_CONFIG_HOME = path.join(tmp, '.config');
+});
+
+afterEach(async () => {
+  restoreEnv('HOME', saved.home);
+  restoreEnv('XDG_CONFIG_HOME', saved.config);
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+const parse = (data: unknown, file = '/proj/.storagecleanup.json') => parseConfig(JSON.stringify(data), file);
+
+test('known keys are read and paths resolved', () => {
+  const config = parse({
+    $schema: 'https://example.com/schema.json',
+    startPath: '~/code',
+    top: 10,
+    minSizeMb: 0.5,
+    concurrency: 4,
+    crossMounts: true,
+    excludes: ['node_modules'],
+    presets: { add: [{ label: 'Builds', path: 'out', platforms: ['linux'] }], remove: ['npm cache', '~/.cache/pip'] },
+    artifactRules: [{ dir: 'dist', markers: ['package.json'] }],
+    budgets: ['~/.gradle <= 10GB'],
+    watch: { paths: ['data'], interval: '30m', minFree: '20GB', maxGrowth: '5GB/h', notify: true },
+  });
+  assert.equal(config.startPath, path.join(tmp, 'code'));
+  assert.equal(config.top, 10);
+  assert.equal(config.minSizeMb, 0.5);
+  assert.equal(config.concurrency, 4);
+  assert.equal(config.crossMounts, true);
+  assert.deepEqual(config.excludes, ['node_modules']);
+  assert.deepEqual(config.presets, {
+    add: [{ label: 'Builds', path: '/proj/out', platforms: ['linux'] }],
+    remove: ['npm cache', path.join(tmp, '.cache/pip')],
+  });
+  assert.deepEqual(config.artifactRules, [{ dir: 'dist', markers: ['package.json'], label: 'dist', anywhere: undefined }]);
+  assert.deepEqual(config.budgets, ['~/.gradle <= 10GB']);
+  assert.deepEqual(config.watch, { paths: ['/proj/data'], interval: '30m', minFree: '20GB', maxGrowth: '5GB/h', notify: true });
+});
+
+test('errors name the file and the key', () => {
+  const file = path.join(tmp, '.config', 'storage-cleanup', 'config.json');
+  assert.throws(() => parseConfig('{"top": 5,}', file), /^Error: ~\/\.config\/storage-cleanup\/config\.json: invalid JSON/);
+  assert.throws(() => parseConfig('[]', file), /expected a JSON object/);
+  assert.throws(() => parse({ topp: 5 }), /"topp" is not a known key \(expected one of startPath, top,/);
+  assert.throws(() => parse({ top: 2.5 }), /"top" must be a whole number of at least 1/);
+  assert.throws(() => parse({ minSizeMb: 0 }), /"minSizeMb" must be a number greater than 0/);
+  assert.throws(() => parse({ crossMounts: 'yes' }), /"crossMounts" must be true or false/);
+  assert.throws(() => parse({ excludes: ['a', ''] }), /"excludes\[1\]" must be a non-empty string/);
+  assert.throws(() => parse({ presets: { add: [{ label: 'x', path: 'y', os: 'linux' }] } }), /"presets\.add\[0\]\.os" is not a known key/);
+  assert.throws(() => parse({ presets: { add: [{ label: 'x', path: 'y', platforms: ['beos'] }] } }), /"presets\.add\[0\]\.platforms\[0\]" must be one of/);
+  assert.throws(() => parse({ presets: { keep: [] } }), /"presets\.keep" is not a known key/);
+  assert.throws(() => parse({ artifactRules: [{ dir: 'a/b', markers: ['x'] }] }), /"artifactRules\[0\]\.dir" must be a folder name/);
+  assert.throws(() => parse({ artifactRules: [{ dir: 'out', markers: [] }] }), /"artifactRules\[0\]\.markers" must name at least one marker file/);
+  assert.throws(() => parse({ budgets: ['~/.gradle 10GB'] }), /"budgets\[0\]" budget "~\/\.gradle 10GB" needs one of/);
+  assert.throws(() => parse({ watch: { interval: 'soon' } }), /"watch\.interval" must be a duration/);
+  assert.throws(() => parse({ watch: { minFree: 'lots' } }), /"watch\.minFree" must be a size/);
+  assert.throws(() => parse({ watch: { maxGrowth: '5GB' } }), /"watch\.maxGrowth" must be a size per period/);
+  assert.throws(() => parse({ watch: { every: '1h' } }), /"watch\.every" is not a known key/);
+});
+
+test('the project file overrides the user file; lists accumulate', async () => {
+  const userDir = path.join(tmp, '.config', 'storage-cleanup');
+  const project = path.join(tmp, 'proj');
+  await fs.promises.mkdir(userDir, {recursive: true});
+  await fs.promises.mkdir(path.join(project, 'sub'), {recursive: true});
+  await fs.promises.writeFile(path.join(userDir, 'config.json'), JSON.stringify({ top: 5, concurrency: 2, excludes: ['a'] }));
+  await fs.promises.writeFile(path.join(project, PROJECT_CONFIG_FILE), JSON.stringify({ top: 9, excludes: ['b'] }));
+
+  const config = loadConfig(path.join(project, 'sub'));
+  assert.equal(config.top, 9);
+  assert.equal(config.concurrency, 2);
+  assert.deepEqual(config.excludes, ['a', 'b']);
+  assert.deepEqual(config.sources, [path.join(userDir, 'config.json'), path.join(project, PROJECT_CONFIG_FILE)]);
+});
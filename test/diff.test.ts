@@ -0,0 +1,78 @@
+import {afterEach, beforeEach, test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {diffForests, formatDeltaKb, resolveDiffSide} from '../src/diff.js';
+import {saveSnapshot} from '../src/persist.js';
+import type {SizeForest, SizeNode} from '../src/tree.js';
+
+const DAY = 86_400_000;
+let tmp: string;
+const savedCache = process.env.XDG_CACHE_HOME;
+
+beforeEach(async () => {
+  tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'diff-test-'));
+  process.env.XDG_CACHE_HOME = tmp;
+});
+
+afterEach(async () => {
+  if (savedCache === undefined) delete process.env.XDG_CACHE_HOME;
+  else process.env.XDG_CACHE_HOME = savedCache;
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+function node(name: string, kb: number, children: SizeNode[] = []): SizeNode {
+  return { name, kb, mtime: 0, children };
+}
+
+function forest(root: string, tree: SizeNode): SizeForest {
+  return new Map([[root, tree]]);
+}
+
+test('resolveDiffSide picks the newest snapshot at least as old as an age', async () => {
+  const old = await saveSnapshot(forest('/w', node('w', 10)), Date.now() - 40 * DAY);
+  const recent = await saveSnapshot(forest('/w', node('w', 20)), Date.now() - 5 * DAY);
+  assert.equal((await resolveDiffSide('30d')).label, `snapshot ${old.id}`);
+  assert.equal((await resolveDiffSide('3d')).label, `snapshot ${recent.id}`);
+  assert.equal((await resolveDiffSide('latest')).label, `snapshot ${recent.id}`);
+  assert.equal((await resolveDiffSide(old.id)).forest.get('/w')?.kb, 10);
+});
+
+test('resolveDiffSide fails when no snapshot is that old', async () => {
+  const only = await saveSnapshot(forest('/w', node('w', 10)), Date.now() - 5 * DAY);
+  await assert.rejects(resolveDiffSide('30d'), new RegExp(`No snapshot older than 30d \\(oldest: ${only.id}, 5d old\\)`));
+  await assert.rejects(resolveDiffSide('nope'), /Unknown snapshot: nope/);
+});
+
+test('resolveDiffSide without snapshots', async () => {
+  await assert.rejects(resolveDiffSide('latest'), /No snapshots yet/);
+});
+
+test('diffForests lists what grew, shrank, appeared and vanished, largest change first', () => {
+  const before = forest('/w', node('w', 100, [node('a', 50, [node('deep', 10)]), node('b', 30), node('gone', 20)]));
+  const after = forest('/w', node('w', 130, [node('a', 40, [node('deep', 10)]), node('b', 60), node('new', 30)]));
+  const entries = diffForests(before, after, 1);
+  assert.deepEqual(entries.map((e) => [e.path, e.kind, e.deltaKb]), [
+    ['/w', 'grew', 30],
+    ['/w/b', 'grew', 30],
+    ['/w/new', 'added', 30],
+    ['/w/gone', 'removed', -20],
+    ['/w/a', 'shrank', -10],
+  ]);
+  assert.deepEqual(entries.find((e) => e.path === '/w/gone'), { path: '/w/gone', beforeKb: 20, afterKb: 0, deltaKb: -20, kind: 'removed' });
+});
+
+test('diffForests honours the depth and start path, and skips roots one side lacks', () => {
+  const before = new Map([...forest('/w', node('w', 10, [node('a', 10, [node('x', 10)])])), ...forest('/only-before', node('only-before', 5))]);
+  const after = new Map([...forest('/w', node('w', 20, [node('a', 20, [node('x', 20)])])), ...forest('/only-after', node('only-after', 5))]);
+  assert.deepEqual(diffForests(before, after, 1).map((e) => e.path), ['/w', '/w/a']);
+  assert.deepEqual(diffForests(before, after, 5, '/w/a').map((e) => e.path), ['/w/a', '/w/a/x']);
+  assert.deepEqual(diffForests(before, after, 5, '/elsewhere'), []);
+});
+
+test('formatDeltaKb signs the change', () => {
+  assert.equal(formatDeltaKb(2048), '+2.0MB');
+  assert.equal(formatDeltaKb(-512), '-512.0KB');
+  assert.equal(formatDeltaKb(0), '+0.0KB');
+});
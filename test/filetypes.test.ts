@@ -0,0 +1,78 @@
+import {afterEach, beforeEach, test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {mergeTypeSizes, sniffType, typeBreakdown, typeFromMagic, typeFromName} from '../src/filetypes.js';
+
+let tmp: string;
+
+beforeEach(async () => {
+  tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'filetypes-test-'));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+const head = (...parts: Array<string | number[]>) => Buffer.concat(parts.map((p) => typeof p === 'string' ? Buffer.from(p, 'latin1') : Buffer.from(p)));
+
+test('magic numbers are recognised', () => {
+  assert.equal(typeFromMagic(head([0, 0, 0, 0x20], 'ftypisom')), 'video');
+  assert.equal(typeFromMagic(head([0, 0, 0, 0x14], 'ftypqt  ')), 'video');
+  assert.equal(typeFromMagic(head([0, 0, 0, 0x18], 'ftypheic')), 'image');
+  assert.equal(typeFromMagic(head([0, 0, 0, 0x20], 'ftypM4A ')), 'audio');
+  assert.equal(typeFromMagic(head('RIFF', [0, 0, 0, 0], 'WAVEfmt ')), 'audio');
+  assert.equal(typeFromMagic(head('RIFF', [0, 0, 0, 0], 'AVI LIST')), 'video');
+  assert.equal(typeFromMagic(head('RIFF', [0, 0, 0, 0], 'WEBPVP8 ')), 'image');
+  assert.equal(typeFromMagic(head([0x1a, 0x45, 0xdf, 0xa3, 0x01])), 'video');
+  assert.equal(typeFromMagic(head([0xff, 0xd8, 0xff, 0xe0])), 'image');
+  assert.equal(typeFromMagic(head([0x89], 'PNG\r\n')), 'image');
+  assert.equal(typeFromMagic(head('II*\0')), 'image');
+  assert.equal(typeFromMagic(head('MM\0*')), 'image');
+  assert.equal(typeFromMagic(head('PK\x03\x04')), 'archive');
+  assert.equal(typeFromMagic(head([0x1f, 0x8b, 0x08])), 'archive');
+  assert.equal(typeFromMagic(head([0xfd], '7zXZ\0')), 'archive');
+  assert.equal(typeFromMagic(head('7z\xbc\xaf\x27\x1c')), 'archive');
+  assert.equal(typeFromMagic(head('KDMV')), 'vm');
+  assert.equal(typeFromMagic(head('QFI\xfb')), 'vm');
+  assert.equal(typeFromMagic(head('conectix')), 'vm');
+  assert.equal(typeFromMagic(head('SQLite format 3\0')), 'data');
+  assert.equal(typeFromMagic(head([0x7f], 'ELF')), 'code');
+});
+
+test('unknown and truncated heads are not classified', () => {
+  assert.equal(typeFromMagic(Buffer.alloc(0)), null);
+  assert.equal(typeFromMagic(head('hello world')), null);
+  assert.equal(typeFromMagic(head('RIFF', [0, 0, 0, 0], 'XXXX')), null);
+  assert.equal(typeFromMagic(head('SQLite format')), null);
+  assert.equal(typeFromMagic(head([0xff, 0xd8])), null);
+});
+
+test('names are classified by extension', () => {
+  assert.equal(typeFromName('clip.MOV'), 'video');
+  assert.equal(typeFromName('backup.tar.gz'), 'archive');
+  assert.equal(typeFromName('disk.qcow2'), 'vm');
+  assert.equal(typeFromName('app.log.1'), 'data');
+  assert.equal(typeFromName('syslog.2.gz'), 'archive');
+  assert.equal(typeFromName('syslog.log.2.gz'), 'data');
+  assert.equal(typeFromName('README'), null);
+  assert.equal(typeFromName('notes.xyz'), null);
+});
+
+test('files are sniffed by their first bytes', async () => {
+  const file = path.join(tmp, 'blob');
+  await fs.promises.writeFile(file, head('SQLite format 3\0', 'rest of the page'));
+  assert.equal(await sniffType(file), 'data');
+  assert.equal(await sniffType(path.join(tmp, 'missing')), null);
+});
+
+test('breakdowns are largest first and merges drop emptied types', () => {
+  assert.deepEqual(typeBreakdown({ image: 5, video: 20, other: 1 }), [
+    { type: 'video', label: 'Video', size: 20 },
+    { type: 'image', label: 'Images', size: 5 },
+    { type: 'other', label: 'Other', size: 1 },
+  ]);
+  assert.deepEqual(mergeTypeSizes({ video: 10, image: 3 }, { image: 3, code: 2 }, -1), { video: 10 });
+  assert.deepEqual(mergeTypeSizes({ video: 10 }, { video: 1, code: 2 }), { video: 11, code: 2 });
+});
@@ -0,0 +1,32 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {fuzzyFilter, fuzzyMatch} from '../src/fuzzy.js';
+
+const score = (query: string, text: string) => fuzzyMatch(query, text)?.score ?? -Infinity;
+
+test('queries match as case-insensitive subsequences', () => {
+  assert.deepEqual(fuzzyMatch('nm', 'node_modules')?.positions, [0, 5]);
+  assert.deepEqual(fuzzyMatch('DOCK', 'Library/Docker')?.positions, [8, 9, 10, 11]);
+  assert.deepEqual(fuzzyMatch('a c', 'Data/Cache')?.positions, [3, 5]);
+  assert.equal(fuzzyMatch('xz', 'node_modules'), null);
+  assert.equal(fuzzyMatch('sedon', 'node_modules'), null, 'order matters');
+  assert.deepEqual(fuzzyMatch('  ', 'anything'), { score: 0, positions: [] });
+});
+
+test('the match window is as tight as possible', () => {
+  // The first "a" would also do, but the tightest window ends at the same "b"
+  assert.deepEqual(fuzzyMatch('ab', 'a__ab')?.positions, [3, 4]);
+});
+
+test('runs and word starts score higher', () => {
+  assert.ok(score('cache', 'cache') > score('cache', 'c_a_c_h_e'));
+  assert.ok(score('mod', 'node_modules') > score('mod', 'xmodx'), 'after a separator');
+  assert.ok(score('data', 'DerivedData') > score('data', 'deriveddata'), 'camel-case hump');
+  assert.ok(score('ab', 'ab') > score('ab', 'a--b'), 'gaps cost a little');
+});
+
+test('filtering keeps matching items in order', () => {
+  const items = [{ name: 'Downloads' }, { name: 'Desktop' }, { name: 'Documents' }, { name: 'Music' }];
+  assert.deepEqual(fuzzyFilter(items, 'dos', (it) => it.name).map((it) => it.name), ['Downloads', 'Documents']);
+  assert.equal(fuzzyFilter(items, '', (it) => it.name).length, 4);
+});
@@ -0,0 +1,84 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {compileExcludes, IGNORE_FILE, loadExcludes, NO_EXCLUDES} from '../src/ignore.js';
+
+const root = '/scan';
+const at = (rel: string) => path.join(root, rel);
+
+test('no patterns excludes nothing', () => {
+  assert.equal(compileExcludes(root, []), NO_EXCLUDES);
+  assert.equal(compileExcludes(root, ['', '# comment', '   ']), NO_EXCLUDES);
+});
+
+test('a pattern without a slash matches the name at any depth', () => {
+  const ex = compileExcludes(root, ['node_modules', '*.log']);
+  assert.equal(ex(at('node_modules'), true), true);
+  assert.equal(ex(at('a/b/node_modules'), true), true);
+  assert.equal(ex(at('a/build.log'), false), true);
+  assert.equal(ex(at('a/build.log.gz'), false), false);
+});
+
+test('* and ? stay within one segment, ** spans several', () => {
+  const ex = compileExcludes(root, ['src/*.tmp', 'a/**/cache', 'f?o']);
+  assert.equal(ex(at('src/x.tmp'), false), true);
+  assert.equal(ex(at('src/deep/x.tmp'), false), false);
+  assert.equal(ex(at('a/cache'), true), true);
+  assert.equal(ex(at('a/b/c/cache'), true), true);
+  assert.equal(ex(at('foo'), false), true);
+  assert.equal(ex(at('fooo'), false), false);
+});
+
+test('patterns with a slash are anchored at the root, or are absolute', () => {
+  const ex = compileExcludes(root, ['build/out', '/var/tmp']);
+  assert.equal(ex(at('build/out'), true), true);
+  assert.equal(ex(at('x/build/out'), true), false);
+  assert.equal(ex('/var/tmp', true), true);
+});
+
+test('a trailing slash only matches folders', () => {
+  const ex = compileExcludes(root, ['dist/']);
+  assert.equal(ex(at('dist'), true), true);
+  assert.equal(ex(at('dist'), false), false);
+});
+
+test('character classes, negated classes and escapes', () => {
+  const ex = compileExcludes(root, ['[ab].bin', 'x[!0-9]', '\\*star']);
+  assert.equal(ex(at('a.bin'), false), true);
+  assert.equal(ex(at('c.bin'), false), false);
+  assert.equal(ex(at('xy'), false), true);
+  assert.equal(ex(at('x1'), false), false);
+  assert.equal(ex(at('*star'), false), true);
+  assert.equal(ex(at('astar'), false), false);
+});
+
+test('! re-includes and the last matching pattern wins', () => {
+  const ex = compileExcludes(root, ['*.iso', '!keep.iso']);
+  assert.equal(ex(at('old.iso'), false), true);
+  assert.equal(ex(at('keep.iso'), false), false);
+  const again = compileExcludes(root, ['*.iso', '!keep.iso', 'keep.iso']);
+  assert.equal(again(at('keep.iso'), false), true);
+});
+
+test('loadExcludes reads the user file, then the root file, then the flags', async () => {
+  const tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ignore-test-'));
+  const saved = process.env.XDG_CONFIG_HOME;
+  try {
+    process.env.XDG_CONFIG_HOME = path.join(tmp, 'config');
+    await fs.promises.mkdir(path.join(tmp, 'config', 'storage-cleanup'), {recursive: true});
+    await fs.promises.mkdir(path.join(tmp, 'root'));
+    await fs.promises.writeFile(path.join(tmp, 'config', 'storage-cleanup', IGNORE_FILE), '*.iso\n*.bak\n');
+    await fs.promises.writeFile(path.join(tmp, 'root', IGNORE_FILE), '# local\n!keep.iso\n');
+    const ex = await loadExcludes(path.join(tmp, 'root'), ['!keep.bak']);
+    assert.equal(ex(path.join(tmp, 'root', 'a.iso'), false), true);
+    assert.equal(ex(path.join(tmp, 'root', 'keep.iso'), false), false);
+    assert.equal(ex(path.join(tmp, 'root', 'a.bak'), false), true);
+    assert.equal(ex(path.join(tmp, 'root', 'keep.bak'), false), false);
+  } finally {
+    if (saved === undefined) delete process.env.XDG_CONFIG_HOME;
+    else process.env.XDG_CONFIG_HOME = saved;
+    await fs.promises.rm(tmp, {recursive: true, force: true});
+  }
+});
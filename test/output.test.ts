@@ -0,0 +1,61 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {SCHEMA_VERSION, serialize, toTable} from '../src/output.js';
+
+const sizes = toTable({
+  kind: 'sizes',
+  cmd: 'dirs',
+  root: '/w',
+  entries: [
+    { kb: 2048, bytes: 2_000_000, path: '/w/a,b "q"' },
+    { kb: 4, path: '/w/tab\there', status: 'partial', unreadable: 2 },
+  ],
+});
+
+test('toTable turns entries into records with the documented columns', () => {
+  assert.deepEqual(sizes.columns, ['section', 'label', 'path', 'bytes', 'kb', 'human', 'status', 'unreadable']);
+  assert.deepEqual(sizes.records[0], { section: null, label: null, path: '/w/a,b "q"', bytes: 2_000_000, kb: 2048, human: '2.0MB', status: 'ok', unreadable: 0 });
+  assert.equal(sizes.records[1]!.bytes, 4096, 'bytes fall back to kb * 1024');
+  assert.deepEqual(sizes.meta, { root: '/w' });
+});
+
+test('json wraps the records with the schema version and meta', () => {
+  const doc = JSON.parse(serialize('json', 'dirs', sizes));
+  assert.equal(doc.schema, SCHEMA_VERSION);
+  assert.equal(doc.command, 'dirs');
+  assert.equal(doc.root, '/w');
+  assert.ok(!Number.isNaN(Date.parse(doc.generatedAt)));
+  assert.deepEqual(doc.records, sizes.records);
+});
+
+test('ndjson writes one record per line', () => {
+  const lines = serialize('ndjson', 'dirs', sizes).trimEnd().split('\n');
+  assert.deepEqual(lines.map((l) => JSON.parse(l)), sizes.records);
+});
+
+test('csv quotes fields that need it; tsv escapes tabs and newlines', () => {
+  assert.equal(serialize('csv', 'dirs', sizes), [
+    'section,label,path,bytes,kb,human,status,unreadable',
+    ',,"/w/a,b ""q""",2000000,2048,2.0MB,ok,0',
+    ',,/w/tab\there,4096,4,4.0KB,partial,2',
+    '',
+  ].join('\n'));
+  assert.equal(serialize('tsv', 'dirs', sizes).split('\n')[2], '\t\t/w/tab\\there\t4096\t4\t4.0KB\tpartial\t2');
+});
+
+test('check results carry pass/fail counts and a status per budget', () => {
+  const table = toTable({
+    kind: 'check',
+    results: [
+      { spec: 'x <= 1K', kind: 'size', target: 'x', path: '/x', op: '<=', limitBytes: 1024, bytes: 4096, pass: false },
+      { spec: 'y <= 1K', kind: 'size', target: 'y', path: '/y', op: '<=', limitBytes: 1024, bytes: 0, pass: true, missing: true },
+      { spec: 'free space >= 1G', kind: 'free', target: 'free space', path: '/nope', op: '>=', limitBytes: 1 << 30, bytes: null, pass: false, error: 'no such path' },
+    ],
+  });
+  assert.deepEqual(table.meta, { passed: 1, failed: 2 });
+  assert.deepEqual(table.records.map((r) => [r.result, r.status, r.human, r.error]), [
+    ['fail', 'ok', '4.0KB', null],
+    ['pass', 'missing', '0.0KB', null],
+    ['fail', 'ok', null, 'no such path'],
+  ]);
+});
@@ -0,0 +1,79 @@
+import {afterEach, beforeEach, test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import {cacheTtlMs, isExpired, loadCacheFromDisk, saveCacheToDisk} from '../src/persist.js';
+import type {SizeForest, SizeNode} from '../src/tree.js';
+
+let tmp: string;
+const saved = { cache: process.env.XDG_CACHE_HOME, ttl: process.env.STORAGE_CLEANUP_CACHE_TTL };
+
+function restoreEnv(name: 'XDG_CACHE_HOME' | 'STORAGE_CLEANUP_CACHE_TTL', value: string | undefined) {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+beforeEach(async () => {
+  tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'persist-test-'));
+  process.env.XDG_CACHE_HOME = tmp;
+  delete process.env.STORAGE_CLEANUP_CACHE_TTL;
+});
+
+afterEach(async () => {
+  restoreEnv('XDG_CACHE_HOME', saved.cache);
+  restoreEnv('STORAGE_CLEANUP_CACHE_TTL', saved.ttl);
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+const cacheFile = () => path.join(tmp, 'storage-cleanup', 'tree.json.gz');
+
+function node(name: string, kb: number, children: SizeNode[] = []): SizeNode {
+  return { name, kb, mtime: 0, children, scannedAt: 1000 };
+}
+
+test('the cache round-trips through disk', async () => {
+  const forest: SizeForest = new Map([['/w', node('w', 10, [{ name: 'a', kb: 4, mtime: 5, children: [] }])]]);
+  await saveCacheToDisk(forest);
+  assert.deepEqual(await loadCacheFromDisk(), forest);
+  assert.equal(fs.existsSync(`${cacheFile()}.lock`), false, 'the lock is released');
+});
+
+test('caches from another version, or unreadable ones, are ignored', async () => {
+  await fs.promises.mkdir(path.dirname(cacheFile()), {recursive: true});
+  const old = { version: 0, roots: { '/w': { lastScan: 1, tree: ['w', 10, 0] } } };
+  await fs.promises.writeFile(cacheFile(), zlib.gzipSync(JSON.stringify(old)));
+  assert.equal((await loadCacheFromDisk()).size, 0);
+  await fs.promises.writeFile(cacheFile(), 'not gzip');
+  assert.equal((await loadCacheFromDisk()).size, 0);
+  await saveCacheToDisk(new Map([['/v', node('v', 1)]]));
+  assert.deepEqual([...(await loadCacheFromDisk()).keys()], ['/v']);
+});
+
+test('saving keeps roots another run saved unless ours overlap them', async () => {
+  await saveCacheToDisk(new Map([['/a', node('a', 1)], ['/b/c', node('c', 2)]]));
+  await saveCacheToDisk(new Map([['/b', node('b', 3)]]));
+  const forest = await loadCacheFromDisk();
+  assert.deepEqual([...forest.keys()].sort(), ['/a', '/b']);
+  assert.equal(forest.get('/b')!.kb, 3);
+});
+
+test('a lock left behind by a crashed run is taken over', async () => {
+  await fs.promises.mkdir(path.dirname(cacheFile()), {recursive: true});
+  const lock = `${cacheFile()}.lock`;
+  await fs.promises.writeFile(lock, '12345');
+  const longAgo = new Date(Date.now() - 60_000);
+  await fs.promises.utimes(lock, longAgo, longAgo);
+  await saveCacheToDisk(new Map([['/w', node('w', 1)]]));
+  assert.equal((await loadCacheFromDisk()).size, 1);
+});
+
+test('cache entries expire after the TTL', () => {
+  assert.equal(cacheTtlMs(), 7 * 86_400_000);
+  process.env.STORAGE_CLEANUP_CACHE_TTL = '12h';
+  assert.equal(isExpired(0, 12 * 3_600_000), false);
+  assert.equal(isExpired(0, 12 * 3_600_000 + 1), true);
+  process.env.STORAGE_CLEANUP_CACHE_TTL = 'soon';
+  assert.equal(cacheTtlMs(), 7 * 86_400_000, 'an unreadable TTL falls back to the default');
+});
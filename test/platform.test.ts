@@ -0,0 +1,26 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {execFileSync} from 'node:child_process';
+import fs from 'node:fs';
+import {lowerPriority} from '../src/platform.js';
+
+// Field 19 of /proc/<pid>/task/<tid>/stat, counted after the parenthesised name.
+function niceOf(tid: string): number {
+  const stat = fs.readFileSync(`/proc/self/task/${tid}/stat`, 'utf8');
+  return Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[16]);
+}
+
+function hasIonice(): boolean {
+  try { execFileSync('ionice', ['-p', String(process.pid)], {stdio: 'ignore'}); return true; } catch { return false; }
+}
+
+// The test process lowers itself; node --test runs every file in a process of its own.
+test('lowerPriority lowers every thread, not just the main one', {skip: process.platform !== 'linux'}, async () => {
+  await lowerPriority();
+  const tids = fs.readdirSync('/proc/self/task');
+  const workers = tids.filter((t) => t !== String(process.pid));
+  assert.ok(workers.length >= 4, 'the threadpool is running');
+  for (const tid of tids) assert.equal(niceOf(tid), 19, `thread ${tid}`);
+  if (!hasIonice()) return;
+  for (const tid of workers) assert.match(execFileSync('ionice', ['-p', tid], {encoding: 'utf8'}), /^idle/, `thread ${tid}`);
+});
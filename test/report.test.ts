@@ -0,0 +1,38 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {ReportNode, reportTree} from '../src/report.js';
+import type {SizeNode} from '../src/tree.js';
+
+function dir(name: string, kb: number, children: SizeNode[] = [], files?: SizeNode['files']): SizeNode {
+  return { name, kb, mtime: 0, children, ...(files ? {files} : {}) };
+}
+
+function count(n: ReportNode): number {
+  return 1 + (n.c || []).reduce((sum, c) => sum + count(c), 0);
+}
+
+test('reportTree keeps everything when the tree fits', () => {
+  const tree = dir('root', 20, [dir('a', 12, [dir('a1', 8)]), dir('b', 4)], [{ name: 'f', kb: 4 }]);
+  const {tree: out, nodes} = reportTree(tree, 10);
+  assert.equal(nodes, 5);
+  assert.equal(count(out), 5);
+  assert.deepEqual(out.c!.map((c) => c.n), ['a', 'b', 'f']);
+});
+
+test('reportTree caps the node count even when many entries tie at the floor', () => {
+  const empties = Array.from({length: 500}, (_, i) => dir(`d${i}`, 4));
+  const tree = dir('root', 2100, [dir('big', 100, [dir('inner', 50)]), ...empties], [{ name: 'movie', kb: 1000 }]);
+  const {tree: out, nodes} = reportTree(tree, 100);
+  assert.equal(nodes, 100);
+  assert.equal(count(out), 100);
+  // Everything above the tied size makes it
+  assert.deepEqual(out.c!.slice(0, 2).map((c) => c.n), ['movie', 'big']);
+  assert.deepEqual(out.c!.find((c) => c.n === 'big')!.c!.map((c) => c.n), ['inner']);
+});
+
+test('reportTree caps a tree of nothing but ties', () => {
+  const tree = dir('root', 0, Array.from({length: 300}, (_, i) => dir(`d${i}`, 0)));
+  const {tree: out, nodes} = reportTree(tree, 50);
+  assert.equal(nodes, 50);
+  assert.equal(out.c!.length, 49);
+});
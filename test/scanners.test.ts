@@ -0,0 +1,41 @@
+import {after, before, test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {scanPreset} from '../src/scanners.js';
+
+let tmp: string;
+const saved = { home: process.env.HOME, config: process.env.XDG_CONFIG_HOME };
+
+before(async () => {
+  tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'scanners-test-'));
+  process.env.HOME = path.join(tmp, 'home'); // keeps the node_modules and folder sections small
+  process.env.XDG_CONFIG_HOME = path.join(tmp, 'config');
+  await fs.promises.mkdir(process.env.HOME);
+});
+
+after(async () => {
+  process.env.HOME = saved.home;
+  if (saved.config === undefined) delete process.env.XDG_CONFIG_HOME;
+  else process.env.XDG_CONFIG_HOME = saved.config;
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+test('preset locations are measured without excluded folders', async () => {
+  const cache = path.join(tmp, 'cache');
+  await fs.promises.mkdir(path.join(cache, 'keep'), {recursive: true});
+  await fs.promises.mkdir(path.join(cache, 'skip'));
+  await fs.promises.writeFile(path.join(cache, 'keep', 'a.bin'), Buffer.alloc(64 * 1024, 1));
+  await fs.promises.writeFile(path.join(cache, 'skip', 'b.bin'), Buffer.alloc(1024 * 1024, 1));
+  const locations = [{ label: 'Cache', path: cache }];
+
+  const all = (await scanPreset(locations, 5))[0]!.entries[0]!;
+  const trimmed = (await scanPreset(locations, 5, ['skip/']))[0]!.entries[0]!;
+  assert.equal(all.label, 'Cache');
+  assert.ok(all.kb >= 1024 + 64, `${all.kb}KB`);
+  assert.ok(trimmed.kb < 1024, `${trimmed.kb}KB`);
+
+  await fs.promises.writeFile(path.join(cache, '.storagecleanupignore'), 'skip\n');
+  assert.ok((await scanPreset(locations, 5))[0]!.entries[0]!.kb < 1024, 'the location\'s own ignore file applies too');
+});
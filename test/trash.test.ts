@@ -0,0 +1,219 @@
+import {afterEach, beforeEach, test} from 'node:test';
+import assert from 'node:assert/strict';
+import {execFileSync} from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {listTrashed, moveToTrash, purgeStaging, restoreTrashed, undoLast} from '../src/trash.js';
+
+let tmp: string;
+// /dev/shm is usually a tmpfs, i.e. another volume than the temp dir and home
+const otherVolume = (() => {
+  try { return process.platform === 'linux' && fs.statSync('/dev/shm').dev !== fs.statSync(os.tmpdir()).dev; } catch { return false; }
+})();
+// An immutable file (chattr +i, root only) cannot be removed: a stand-in for a failing delete
+const canPin = (() => {
+  const probe = path.join(os.tmpdir(), `trash-pin-${process.pid}`);
+  try {
+    fs.writeFileSync(probe, '');
+    execFileSync('chattr', ['+i', probe], {stdio: 'ignore'});
+    execFileSync('chattr', ['-i', probe], {stdio: 'ignore'});
+    return true;
+  } catch {
+    return false;
+  } finally {
+    fs.rmSync(probe, {force: true});
+  }
+})();
+const saved = { cache: process.env.XDG_CACHE_HOME, data: process.env.XDG_DATA_HOME };
+
+function restoreEnv(name: 'XDG_CACHE_HOME' | 'XDG_DATA_HOME', value: string | undefined) {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+beforeEach(async () => {
+  tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'trash-test-'));
+  process.env.XDG_CACHE_HOME = path.join(tmp, 'cache');
+  process.env.XDG_DATA_HOME = path.join(tmp, 'data');
+});
+
+afterEach(async () => {
+  restoreEnv('XDG_CACHE_HOME', saved.cache);
+  restoreEnv('XDG_DATA_HOME', saved.data);
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+async function makeFile(name: string, contents = 'x'): Promise<string> {
+  const p = path.join(tmp, 'work', name);
+  await fs.promises.mkdir(path.dirname(p), {recursive: true});
+  await fs.promises.writeFile(p, contents);
+  return p;
+}
+
+test('staging moves the item away, journals it and restores it', async () => {
+  const file = await makeFile('a.txt', 'hello');
+  const rec = await moveToTrash(file, {mode: 'staging'});
+  assert.equal(fs.existsSync(file), false);
+  assert.equal(fs.readFileSync(rec.stored, 'utf8'), 'hello');
+  assert.deepEqual((await listTrashed()).map((r) => r.id), [rec.id]);
+
+  await restoreTrashed(rec);
+  assert.equal(fs.readFileSync(file, 'utf8'), 'hello');
+  assert.equal(fs.existsSync(path.dirname(rec.stored)), false);
+  assert.deepEqual(await listTrashed(), []);
+});
+
+test('restoring refuses to overwrite an existing path', async () => {
+  const file = await makeFile('a.txt');
+  const rec = await moveToTrash(file, {mode: 'staging'});
+  await makeFile('a.txt', 'new');
+  await assert.rejects(restoreTrashed(rec), /already exists/);
+  assert.equal(fs.readFileSync(file, 'utf8'), 'new');
+});
+
+test('undoLast restores the newest delete, a whole batch at once', async () => {
+  const a = await makeFile('a.txt');
+  const b = await makeFile('b.txt');
+  const c = await makeFile('c.txt');
+  await moveToTrash(a, {mode: 'staging'});
+  await moveToTrash(b, {mode: 'staging', batch: 'one'});
+  await moveToTrash(c, {mode: 'staging', batch: 'one'});
+
+  const first = await undoLast();
+  assert.deepEqual(first.restored.map((r) => path.basename(r.original)).sort(), ['b.txt', 'c.txt']);
+  assert.equal(fs.existsSync(b) && fs.existsSync(c), true);
+  assert.equal(fs.existsSync(a), false);
+
+  assert.deepEqual((await undoLast()).restored.map((r) => r.original), [a]);
+  assert.deepEqual(await undoLast(), { restored: [], failed: [] });
+});
+
+test('undoLast skips deletes whose stored item is gone', async () => {
+  const a = await makeFile('a.txt');
+  const b = await makeFile('b.txt');
+  const c = await makeFile('c.txt');
+  const d = await makeFile('d.txt');
+  await moveToTrash(a, {mode: 'staging'});
+  const rb = await moveToTrash(b, {mode: 'staging', batch: 'one'});
+  const rc = await moveToTrash(c, {mode: 'staging', batch: 'one'});
+  const rd = await moveToTrash(d, {mode: 'staging'});
+  await fs.promises.rm(rd.stored);
+  await fs.promises.rm(rb.stored);
+
+  // d is gone: the batch before it comes back, without its own gone item
+  assert.deepEqual((await undoLast()).restored.map((r) => r.id), [rc.id]);
+  assert.equal(fs.existsSync(c), true);
+  assert.deepEqual((await listTrashed()).map((r) => r.original), [a]);
+
+  await fs.promises.rm(path.dirname((await listTrashed())[0]!.stored), {recursive: true});
+  assert.deepEqual(await undoLast(), { restored: [], failed: [] });
+  assert.deepEqual(await listTrashed(), []);
+});
+
+test('undoLast reports the items of a batch that could not come back', async () => {
+  const a = await makeFile('a.txt');
+  const b = await makeFile('b.txt');
+  const ra = await moveToTrash(a, {mode: 'staging', batch: 'one'});
+  const rb = await moveToTrash(b, {mode: 'staging', batch: 'one'});
+  await makeFile('a.txt', 'new');
+
+  const {restored, failed} = await undoLast();
+  assert.deepEqual(restored.map((r) => r.id), [rb.id]);
+  assert.deepEqual(failed.map((f) => f.record.id), [ra.id]);
+  assert.match(failed[0]!.error, /already exists/);
+  assert.equal(fs.readFileSync(a, 'utf8'), 'new');
+  assert.deepEqual((await listTrashed()).map((r) => r.id), [ra.id]);
+});
+
+test('restoring a gone item fails once and drops it from the list', async () => {
+  const rec = await moveToTrash(await makeFile('a.txt'), {mode: 'staging'});
+  await fs.promises.rm(rec.stored);
+  await assert.rejects(restoreTrashed(rec), /is gone/);
+  assert.deepEqual(await listTrashed(), []);
+});
+
+test('purgeStaging drops staged items past the retention window', async () => {
+  const file = await makeFile('old.txt');
+  const rec = await moveToTrash(file, {mode: 'staging'});
+  assert.deepEqual(await purgeStaging(rec.at + 1000), []);
+  const purged = await purgeStaging(rec.at + 8 * 86_400_000);
+  assert.deepEqual(purged.map((r) => r.id), [rec.id]);
+  assert.equal(fs.existsSync(rec.stored), false);
+  assert.deepEqual(await listTrashed(), []);
+});
+
+test('the journal skips lines it cannot parse', async () => {
+  const file = await makeFile('a.txt');
+  const rec = await moveToTrash(file, {mode: 'staging'});
+  await fs.promises.appendFile(path.join(tmp, 'cache', 'storage-cleanup', 'journal.ndjson'), '{not json\n\n');
+  assert.deepEqual((await listTrashed()).map((r) => r.id), [rec.id]);
+});
+
+test('trash mode on Linux writes a .trashinfo next to the item', {skip: process.platform !== 'linux'}, async () => {
+  const file = await makeFile('b c.txt');
+  const rec = await moveToTrash(file, {mode: 'trash'});
+  assert.equal(rec.stored, path.join(tmp, 'data', 'Trash', 'files', 'b c.txt'));
+  const info = fs.readFileSync(rec.infoFile!, 'utf8');
+  assert.match(info, /^\[Trash Info\]\nPath=.*\/b%20c\.txt\nDeletionDate=\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\n$/);
+
+  const again = await moveToTrash(await makeFile('b c.txt'), {mode: 'trash'});
+  assert.equal(path.basename(again.stored), 'b c.txt 2');
+
+  await restoreTrashed(again);
+  assert.equal(fs.existsSync(again.infoFile!), false);
+});
+
+test('trash mode on Linux uses the .Trash-$uid of an item on another volume', {skip: !otherVolume}, async () => {
+  const topTrash = path.join('/dev/shm', `.Trash-${process.getuid!()}`);
+  const hadTrash = fs.existsSync(topTrash);
+  const dir = await fs.promises.mkdtemp(path.join('/dev/shm', 'trash-test-'));
+  try {
+    const file = path.join(dir, 'big.bin');
+    await fs.promises.writeFile(file, 'data');
+    const rec = await moveToTrash(file, {mode: 'trash'});
+    assert.equal(path.dirname(rec.stored), path.join(topTrash, 'files'));
+    assert.equal(fs.readFileSync(rec.infoFile!, 'utf8').split('\n')[1], `Path=${path.basename(dir)}/big.bin`);
+    assert.equal(fs.existsSync(path.join(tmp, 'data', 'Trash')), false);
+
+    await restoreTrashed(rec);
+    assert.equal(fs.readFileSync(file, 'utf8'), 'data');
+    assert.equal(fs.existsSync(rec.stored) || fs.existsSync(rec.infoFile!), false);
+  } finally {
+    await fs.promises.rm(dir, {recursive: true, force: true});
+    if (!hadTrash) await fs.promises.rm(topTrash, {recursive: true, force: true});
+  }
+});
+
+test('a failed copy across volumes leaves no partial copy behind', {skip: !otherVolume}, async () => {
+  const dir = await fs.promises.mkdtemp(path.join('/dev/shm', 'trash-test-'));
+  try {
+    await fs.promises.writeFile(path.join(dir, 'a.txt'), 'a');
+    execFileSync('mkfifo', [path.join(dir, 'pipe')]); // fs.cp refuses to copy FIFOs
+    await assert.rejects(moveToTrash(dir, {mode: 'staging'}));
+    assert.equal(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8'), 'a');
+    const staging = path.join(tmp, 'cache', 'storage-cleanup', 'staging');
+    for (const id of fs.readdirSync(staging)) assert.deepEqual(fs.readdirSync(path.join(staging, id)), []);
+    assert.deepEqual(await listTrashed(), []);
+  } finally {
+    await fs.promises.rm(dir, {recursive: true, force: true});
+  }
+});
+
+test('a copy across volumes is journaled even when the original cannot be removed', {skip: !otherVolume || !canPin}, async () => {
+  process.env.XDG_CACHE_HOME = await fs.promises.mkdtemp(path.join('/dev/shm', 'trash-test-'));
+  const dir = path.join(tmp, 'work', 'proj');
+  await makeFile('proj/a.txt', 'a');
+  const pinned = await makeFile('proj/pinned.txt', 'p');
+  execFileSync('chattr', ['+i', pinned]);
+  try {
+    await assert.rejects(moveToTrash(dir, {mode: 'staging'}), /could not remove all of/);
+    const [rec] = await listTrashed();
+    assert.equal(rec?.original, dir);
+    assert.equal(fs.readFileSync(path.join(rec!.stored, 'a.txt'), 'utf8'), 'a');
+    assert.equal(fs.readFileSync(path.join(rec!.stored, 'pinned.txt'), 'utf8'), 'p');
+  } finally {
+    execFileSync('chattr', ['-i', pinned]);
+    await fs.promises.rm(process.env.XDG_CACHE_HOME!, {recursive: true, force: true});
+  }
+});
@@ -0,0 +1,84 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {findNode, graftTree, outermostPaths, packNode, pruneTree, SizeForest, SizeNode, unpackNode} from '../src/tree.js';
+
+function node(name: string, kb: number, children: SizeNode[] = [], extra: Partial<SizeNode> = {}): SizeNode {
+  return { name, kb, mtime: 0, children, ...extra };
+}
+
+// /w (100KB): a (60KB, holding a1 40KB), b (30KB), 10KB of files directly in /w
+function sample(): SizeForest {
+  const a1 = node('a1', 40, [], { fileCount: 4 });
+  const a = node('a', 60, [a1], { fileCount: 6, dirCount: 1 });
+  const b = node('b', 30, [], { fileCount: 3, files: [{ name: 'big.mp4', kb: 20 }], types: { video: 20, other: 10 } });
+  return new Map([['/w', node('w', 100, [a, b], { fileCount: 10, dirCount: 3, scannedAt: 1000, types: { video: 20, other: 80 } })]]);
+}
+
+test('graftTree replaces a rescanned folder and adjusts every ancestor', () => {
+  const forest = graftTree(sample(), '/w/a/a1', node('a1', 55, [], { fileCount: 7 }), 2000);
+  const w = forest.get('/w')!;
+  assert.equal(w.kb, 115);
+  assert.equal(findNode(forest, '/w/a')!.node.kb, 75);
+  assert.equal(w.fileCount, 13);
+  assert.equal(w.dirCount, 3);
+  const hit = findNode(forest, '/w/a/a1')!;
+  assert.deepEqual({ kb: hit.node.kb, scannedAt: hit.scannedAt }, { kb: 55, scannedAt: 2000 });
+  assert.equal(findNode(forest, '/w/b')!.scannedAt, 1000, 'other folders keep the root scan time');
+});
+
+test('graftTree adds a new folder below a known one', () => {
+  const forest = graftTree(sample(), '/w/c', node('c', 50, [], { fileCount: 2 }), 2000);
+  const w = forest.get('/w')!;
+  assert.equal(w.kb, 150);
+  assert.equal(w.dirCount, 4);
+  assert.deepEqual(w.children.map((c) => c.name), ['a', 'c', 'b'], 'children stay sorted by size');
+});
+
+test('graftTree makes an unknown path a root and replaces roots below it', () => {
+  const forest = graftTree(sample(), '/other', node('other', 5), 2000);
+  assert.deepEqual([...forest.keys()], ['/w', '/other']);
+  const above = graftTree(forest, '/', node('', 500, []), 3000);
+  assert.deepEqual([...above.keys()], ['/']);
+  assert.equal(above.get('/')!.name, '/');
+});
+
+test('pruneTree removes a folder and subtracts it from its ancestors', () => {
+  const forest = pruneTree(sample(), '/w/a/a1');
+  assert.equal(findNode(forest, '/w/a/a1'), null);
+  assert.equal(findNode(forest, '/w/a')!.node.kb, 20);
+  const w = forest.get('/w')!;
+  assert.deepEqual({ kb: w.kb, fileCount: w.fileCount, dirCount: w.dirCount }, { kb: 60, fileCount: 6, dirCount: 2 });
+});
+
+test('pruneTree removes a listed file with its type', () => {
+  const forest = pruneTree(sample(), '/w/b/big.mp4');
+  const b = findNode(forest, '/w/b')!.node;
+  assert.equal(b.files!.length, 0);
+  assert.equal(b.kb, 10);
+  assert.deepEqual(forest.get('/w')!.types, { other: 80 });
+});
+
+test('pruneTree drops roots inside the removed path and ignores unknown paths', () => {
+  assert.equal(pruneTree(sample(), '/w').size, 0);
+  assert.equal(pruneTree(sample(), '/w/nope').get('/w')!.kb, 100);
+});
+
+test('outermostPaths keeps only paths not inside another', () => {
+  assert.deepEqual(outermostPaths(['/a/b', '/a', '/c', '/ab']), ['/a', '/c', '/ab']);
+});
+
+test('packNode and unpackNode round-trip every field', () => {
+  const tree = node('w', 100, [node('a', 60, [], { denied: ['x'], partial: true })], {
+    scannedAt: 1000, files: [{ name: 'f', kb: 9 }], newestMtime: 50, newestAtime: 60, types: { video: 9, other: 91 },
+    fileCount: 3, dirCount: 1,
+  });
+  const back = unpackNode(JSON.parse(JSON.stringify(packNode(tree))));
+  assert.deepEqual(back, { ...tree, unreadable: 1, children: [{ ...tree.children[0]!, unreadable: 1 }] });
+});
+
+test('packNode drops trailing empty fields, and unpackNode reads short tuples from older caches', () => {
+  assert.deepEqual(packNode(node('x', 5, [])), ['x', 5, 0]);
+  assert.deepEqual(packNode(node('x', 5, [], { scannedAt: 7 })), ['x', 5, 0, [], 7]);
+  assert.deepEqual(unpackNode(['x', 5, 3]), node('x', 5, [], { mtime: 3 }));
+  assert.deepEqual(unpackNode(['x', 5, 0, [['y', 2, 0]], 7, [['f', 1]]]), node('x', 5, [node('y', 2)], { scannedAt: 7, files: [{ name: 'f', kb: 1 }] }));
+});
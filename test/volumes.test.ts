@@ -0,0 +1,56 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {Mount, mountOf, mountsBelow, parseMacMounts, parseProcMounts} from '../src/volumes.js';
+
+test('/proc/mounts lines are split and unescaped', () => {
+  const text = [
+    '/dev/nvme0n1p2 / ext4 rw,relatime 0 0',
+    'proc /proc proc rw,nosuid,nodev,noexec,relatime 0 0',
+    'tmpfs /run/user/1000 tmpfs rw,nosuid,nodev 0 0',
+    '/dev/sdb1 /media/me/My\\040Disk vfat rw 0 0',
+    '/dev/sdc1 /mnt/back\\134slash ext4 rw 0 0',
+    '',
+  ].join('\n');
+  assert.deepEqual(parseProcMounts(text), [
+    { device: '/dev/nvme0n1p2', mount: '/', type: 'ext4', hidden: false },
+    { device: 'proc', mount: '/proc', type: 'proc', hidden: true },
+    { device: 'tmpfs', mount: '/run/user/1000', type: 'tmpfs', hidden: true },
+    { device: '/dev/sdb1', mount: '/media/me/My Disk', type: 'vfat', hidden: false },
+    { device: '/dev/sdc1', mount: '/mnt/back\\slash', type: 'ext4', hidden: false },
+  ]);
+});
+
+test('macOS mount output hides nobrowse and pseudo volumes', () => {
+  const text = [
+    '/dev/disk3s1s1 on / (apfs, sealed, local, read-only, journaled)',
+    'devfs on /dev (devfs, local, nobrowse)',
+    '/dev/disk3s6 on /System/Volumes/VM (apfs, local, noexec, journaled, noatime, nobrowse)',
+    '/dev/disk3s5 on /System/Volumes/Data (apfs, local, journaled, nobrowse, protect)',
+    '/dev/disk5s1 on /Volumes/Backup Drive (hfs, local, nodev, nosuid, journaled)',
+    'not a mount line',
+  ].join('\n');
+  assert.deepEqual(parseMacMounts(text).map((m) => [m.mount, m.type, m.hidden]), [
+    ['/', 'apfs', false],
+    ['/dev', 'devfs', true],
+    ['/System/Volumes/VM', 'apfs', true],
+    ['/System/Volumes/Data', 'apfs', true],
+    ['/Volumes/Backup Drive', 'hfs', false],
+  ]);
+});
+
+const mounts: Mount[] = ['/', '/home', '/home/me/data', '/homework', '/proc'].map((mount) => ({ mount, device: mount, type: 'ext4', hidden: false }));
+
+test('a path belongs to the longest mount point holding it', () => {
+  assert.equal(mountOf('/home/me/data/x', mounts)?.mount, '/home/me/data');
+  assert.equal(mountOf('/home/me', mounts)?.mount, '/home');
+  assert.equal(mountOf('/homework/a', mounts)?.mount, '/homework');
+  assert.equal(mountOf('/etc', mounts)?.mount, '/');
+  assert.equal(mountOf('/etc', []), undefined);
+});
+
+test('mount points below a folder exclude the folder itself', () => {
+  assert.deepEqual(mountsBelow('/home', mounts), ['/home/me/data']);
+  assert.deepEqual(mountsBelow('/', mounts), ['/home', '/home/me/data', '/homework', '/proc']);
+  assert.deepEqual(mountsBelow('/home/me/data', mounts), []);
+  assert.equal(mountsBelow('/', [...mounts, mounts[1]!]).length, 4, 'bind mounts are listed once');
+});
@@ -0,0 +1,65 @@
+import {after, before, test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {sizeDirectory, sizePaths} from '../src/walker.js';
+import {SNIFF_MIN_BYTES} from '../src/filetypes.js';
+
+let tmp: string;
+
+before(async () => {
+  tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'walker-test-'));
+});
+
+after(async () => {
+  await fs.promises.rm(tmp, {recursive: true, force: true});
+});
+
+// Last-used times come from atime: the walk itself must not bump it, not even
+// when it reads the head of an extensionless file to find its type.
+test('a walk leaves file access times alone', async () => {
+  const dir = path.join(tmp, 'old');
+  await fs.promises.mkdir(dir);
+  const file = path.join(dir, 'blob');
+  const head = Buffer.from('PK\x03\x04', 'latin1');
+  await fs.promises.writeFile(file, Buffer.concat([head, Buffer.alloc(2 * SNIFF_MIN_BYTES)]));
+  const twoYearsAgo = new Date(Date.now() - 2 * 365 * 86_400_000);
+  await fs.promises.utimes(file, twoYearsAgo, twoYearsAgo);
+  const beforeWalk = await fs.promises.stat(file);
+
+  const sized = await sizeDirectory(tmp);
+  assert.ok(sized.types.archive, 'the file was sniffed as an archive');
+
+  const afterWalk = await fs.promises.stat(file);
+  assert.equal(Math.floor(afterWalk.atimeMs / 1000), Math.floor(beforeWalk.atimeMs / 1000));
+  assert.equal(Math.floor(afterWalk.mtimeMs / 1000), Math.floor(beforeWalk.mtimeMs / 1000));
+  assert.equal(sized.tree.newestAtime, Math.floor(beforeWalk.atimeMs / 1000));
+});
+
+test('sizes, counts and the largest files', async () => {
+  const dir = path.join(tmp, 'sizes');
+  await fs.promises.mkdir(path.join(dir, 'sub'), {recursive: true});
+  await fs.promises.writeFile(path.join(dir, 'sub', 'a.mp4'), Buffer.alloc(2 * 1024 * 1024, 1));
+  await fs.promises.writeFile(path.join(dir, 'b.txt'), 'hi');
+  const sized = await sizeDirectory(dir);
+  assert.equal(sized.tree.fileCount, 2);
+  assert.equal(sized.tree.dirCount, 1);
+  assert.deepEqual(sized.children.map((c) => path.basename(c.path)), ['sub']);
+  assert.ok(sized.kb >= 2048);
+  assert.ok(sized.types.video! >= 2 * 1024 * 1024);
+});
+
+test('sizePaths charges a hard-linked file to every path holding it', async () => {
+  const dir = await fs.promises.mkdtemp(path.join(tmp, 'links-'));
+  const paths = ['a', 'b', 'c'].map((n) => path.join(dir, n));
+  for (const p of paths) await fs.promises.mkdir(p);
+  await fs.promises.writeFile(path.join(paths[0]!, 'shared.bin'), Buffer.alloc(256 * 1024, 1));
+  for (const p of paths.slice(1)) await fs.promises.link(path.join(paths[0]!, 'shared.bin'), path.join(p, 'shared.bin'));
+
+  for (let i = 0; i < 3; i++) {
+    const sized = await sizePaths(paths, { concurrency: 3 });
+    assert.equal(sized.length, 3);
+    for (const e of sized) assert.ok(e.kb >= 256, `${e.path}: ${e.kb}KB`);
+  }
+});